@@ -1,6 +1,12 @@
 import { homedir } from 'os';
 import { mkdir, writeFile, readFile, access } from 'fs/promises';
 import * as readline from 'readline';
+import type { DiscordConfig } from '../discord/types.js';
+import { parseIdList } from '../core/access.js';
+import { parseNotificationPolicy } from '../core/notifications.js';
+import { parseToolCallPolicy } from '../core/tool-calls.js';
+import { parseArtifactPolicy } from '../core/artifacts.js';
+import { stopOnSignal } from './shutdown.js';
 
 const CONFIG_DIR = `${homedir()}/.afk-code`;
 const DISCORD_CONFIG_FILE = `${CONFIG_DIR}/discord.env`;
@@ -58,6 +64,7 @@ Step 3: Invite the Bot
 3. Select permissions:
    • Send Messages
    • Manage Channels
+   • Manage Messages (to pin the task list)
    • Read Message History
 4. Copy the URL and open it to invite the bot to your server
 `);
@@ -118,12 +125,13 @@ async function loadEnvFile(path: string): Promise<Record<string, string>> {
   return config;
 }
 
-export async function discordRun(): Promise<void> {
-  // Load config from multiple sources (in order of precedence):
-  // 1. Environment variables (highest priority)
-  // 2. Local .env file
-  // 3. ~/.afk-code/discord.env (lowest priority)
-
+/**
+ * Load Discord config from multiple sources (in order of precedence):
+ * 1. Environment variables (highest priority)
+ * 2. Local .env file
+ * 3. ~/.afk-code/discord.env (lowest priority)
+ */
+export async function loadDiscordConfig(): Promise<{ config: DiscordConfig | null; missing: string[] }> {
   const globalConfig = await loadEnvFile(DISCORD_CONFIG_FILE);
   const localConfig = await loadEnvFile(`${process.cwd()}/.env`);
 
@@ -136,12 +144,59 @@ export async function discordRun(): Promise<void> {
   // Environment variables take highest precedence
   if (process.env.DISCORD_BOT_TOKEN) config.DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
   if (process.env.DISCORD_USER_ID) config.DISCORD_USER_ID = process.env.DISCORD_USER_ID;
+  if (process.env.DISCORD_ALLOWED_USERS) config.DISCORD_ALLOWED_USERS = process.env.DISCORD_ALLOWED_USERS;
+  if (process.env.DISCORD_ALLOWED_ROLES) config.DISCORD_ALLOWED_ROLES = process.env.DISCORD_ALLOWED_ROLES;
+
+  if (process.env.DISCORD_QUIET_HOURS) config.DISCORD_QUIET_HOURS = process.env.DISCORD_QUIET_HOURS;
+  if (process.env.DISCORD_NOTIFY_DELAY) config.DISCORD_NOTIFY_DELAY = process.env.DISCORD_NOTIFY_DELAY;
+  if (process.env.DISCORD_TOOL_CALLS) config.DISCORD_TOOL_CALLS = process.env.DISCORD_TOOL_CALLS;
+  if (process.env.DISCORD_TOOL_CALLS_INCLUDE) config.DISCORD_TOOL_CALLS_INCLUDE = process.env.DISCORD_TOOL_CALLS_INCLUDE;
+  if (process.env.DISCORD_TOOL_CALLS_EXCLUDE) config.DISCORD_TOOL_CALLS_EXCLUDE = process.env.DISCORD_TOOL_CALLS_EXCLUDE;
+  if (process.env.DISCORD_ANNOUNCE_TODOS) config.DISCORD_ANNOUNCE_TODOS = process.env.DISCORD_ANNOUNCE_TODOS;
+  if (process.env.DISCORD_STREAMING) config.DISCORD_STREAMING = process.env.DISCORD_STREAMING;
+  if (process.env.DISCORD_ARTIFACT_EXTENSIONS) config.DISCORD_ARTIFACT_EXTENSIONS = process.env.DISCORD_ARTIFACT_EXTENSIONS;
+  if (process.env.DISCORD_ARTIFACT_MAX_MB) config.DISCORD_ARTIFACT_MAX_MB = process.env.DISCORD_ARTIFACT_MAX_MB;
+  if (process.env.DISCORD_ARTIFACT_ROOTS) config.DISCORD_ARTIFACT_ROOTS = process.env.DISCORD_ARTIFACT_ROOTS;
 
   // Validate required config
   const required = ['DISCORD_BOT_TOKEN', 'DISCORD_USER_ID'];
   const missing = required.filter((key) => !config[key]);
-
   if (missing.length > 0) {
+    return { config: null, missing };
+  }
+
+  return {
+    config: {
+      botToken: config.DISCORD_BOT_TOKEN,
+      userId: config.DISCORD_USER_ID,
+      allowedUserIds: parseIdList(config.DISCORD_ALLOWED_USERS),
+      allowedRoleIds: parseIdList(config.DISCORD_ALLOWED_ROLES),
+      notifications: parseNotificationPolicy('Discord', config.DISCORD_QUIET_HOURS, config.DISCORD_NOTIFY_DELAY),
+      toolCalls: parseToolCallPolicy(
+        'Discord',
+        config.DISCORD_TOOL_CALLS,
+        config.DISCORD_TOOL_CALLS_INCLUDE,
+        config.DISCORD_TOOL_CALLS_EXCLUDE,
+        'full'
+      ),
+      announceCompletedTodos: config.DISCORD_ANNOUNCE_TODOS === 'true',
+      streamReplies: config.DISCORD_STREAMING === 'true',
+      artifacts: parseArtifactPolicy(
+        'Discord',
+        config.DISCORD_ARTIFACT_EXTENSIONS,
+        config.DISCORD_ARTIFACT_MAX_MB,
+        config.DISCORD_ARTIFACT_ROOTS,
+        10 * 1024 * 1024 // The platform's own upload limit
+      ),
+    },
+    missing,
+  };
+}
+
+export async function discordRun(): Promise<void> {
+  const { config: discordConfig, missing } = await loadDiscordConfig();
+
+  if (!discordConfig) {
     console.error(`Missing config: ${missing.join(', ')}`);
     console.error('');
     console.error('Provide tokens via:');
@@ -161,11 +216,6 @@ export async function discordRun(): Promise<void> {
   console.log(`[AFK Code] Loaded config from ${source}`);
   console.log('[AFK Code] Starting Discord bot...');
 
-  const discordConfig = {
-    botToken: config.DISCORD_BOT_TOKEN,
-    userId: config.DISCORD_USER_ID,
-  };
-
   const { client, sessionManager } = createDiscordApp(discordConfig);
 
   // Start session manager (Unix socket server for CLI connections)
@@ -176,10 +226,11 @@ export async function discordRun(): Promise<void> {
     console.error('[AFK Code] Failed to start session manager:', err);
     process.exit(1);
   }
+  stopOnSignal(sessionManager);
 
   // Start Discord bot
   try {
-    await client.login(config.DISCORD_BOT_TOKEN);
+    await client.login(discordConfig.botToken);
     console.log('[AFK Code] Discord bot is running!');
     console.log('');
     console.log('Start a Claude Code session with: afk-code run -- claude');
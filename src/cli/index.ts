@@ -2,6 +2,7 @@ import { run } from './run.js';
 import { slackSetup, slackRun } from './slack.js';
 import { discordSetup, discordRun } from './discord.js';
 import { telegramSetup, telegramRun } from './telegram.js';
+import { serveRun } from './serve.js';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -52,6 +53,11 @@ async function main() {
       break;
     }
 
+    case 'serve': {
+      await serveRun(args.slice(1));
+      break;
+    }
+
     case 'help':
     case '--help':
     case '-h':
@@ -60,6 +66,7 @@ async function main() {
 AFK Code - Monitor Claude Code sessions from Slack/Discord/Telegram
 
 Commands:
+  serve [platforms]  Run several bots from one process (default: all configured)
   telegram           Run the Telegram bot
   telegram setup     Configure Telegram integration
   discord            Run the Discord bot
@@ -70,6 +77,8 @@ Commands:
   help               Show this help message
 
 Examples:
+  afk-code serve                   # Start every configured bot
+  afk-code serve slack telegram    # Start only Slack and Telegram
   afk-code telegram setup   # First-time Telegram configuration
   afk-code telegram         # Start the Telegram bot
   afk-code discord setup    # First-time Discord configuration
@@ -1,7 +1,9 @@
 import { randomUUID } from 'crypto';
 import { homedir } from 'os';
+import { basename } from 'path';
 import { createConnection, type Socket } from 'net';
 import * as pty from 'node-pty';
+import { PermissionPromptDetector, stripAnsi } from '../utils/permission-prompt.js';
 
 const DAEMON_SOCKET = '/tmp/afk-code-daemon.sock';
 
@@ -12,38 +14,82 @@ function getClaudeProjectDir(cwd: string): string {
   return `${homedir()}/.claude/projects/${encodedPath}`;
 }
 
-// Connect to daemon and maintain bidirectional communication
+// Flags that make claude pick (or fork) the conversation itself
+const RESUME_FLAGS = new Set(['--resume', '-r', '--continue', '-c']);
+
+/**
+ * Make sure claude writes to a transcript we know the name of, by giving it a
+ * session ID up front (or using the one already given), so the bot can tell
+ * concurrent sessions in one directory apart. Returns the command to run and
+ * the transcript's session ID, if known.
+ */
+function bindTranscript(command: string[]): { command: string[]; transcriptId?: string } {
+  if (basename(command[0]) !== 'claude') return { command };
+
+  const args = command.slice(1);
+  const given = args.findIndex((arg) => arg === '--session-id' || arg.startsWith('--session-id='));
+  if (given !== -1) {
+    const transcriptId = args[given].includes('=') ? args[given].split('=')[1] : args[given + 1];
+    return { command, transcriptId };
+  }
+
+  // Resuming keeps the old conversation's ID, which we can't know in advance
+  if (args.some((arg) => RESUME_FLAGS.has(arg.split('=')[0]))) return { command };
+
+  const transcriptId = randomUUID();
+  return { command: [...command, '--session-id', transcriptId], transcriptId };
+}
+
+// The end of the terminal output is sent to the bot this often (when it changed),
+// so messages for running commands can show their output
+const OUTPUT_INTERVAL_MS = 1000;
+const OUTPUT_TAIL_CHARS = 4000;
+
+// Reconnect delays when the bot restarts or isn't running yet
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Connect to daemon and maintain bidirectional communication. If the bot isn't
+// running or restarts, keep reconnecting (with backoff) and re-announce the
+// session under the same ID, so the bot picks it up where it left off.
 function connectToDaemon(
   sessionId: string,
   projectDir: string,
   cwd: string,
   command: string[],
+  transcriptId: string | undefined,
   onInput: (text: string) => void
-): Promise<{ close: () => void } | null> {
-  return new Promise((resolve) => {
-    const socket = createConnection(DAEMON_SOCKET);
+): { send: (message: object) => void; close: () => void } {
+  const startedAt = new Date().toISOString();
+  let socket: Socket | null = null;
+  let connected = false;
+  let closed = false;
+  let retryDelay = RECONNECT_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function connect() {
+    const current = createConnection(DAEMON_SOCKET);
+    socket = current;
     let messageBuffer = '';
 
-    socket.on('connect', () => {
+    current.on('connect', () => {
+      connected = true;
+      retryDelay = RECONNECT_MIN_MS;
+
       // Tell daemon about this session
-      socket.write(JSON.stringify({
+      current.write(JSON.stringify({
         type: 'session_start',
         id: sessionId,
         projectDir,
         cwd,
         command,
         name: command.join(' '),
+        startedAt,
+        transcriptId,
       }) + '\n');
-
-      resolve({
-        close: () => {
-          socket.write(JSON.stringify({ type: 'session_end', sessionId }) + '\n');
-          socket.end();
-        },
-      });
     });
 
-    socket.on('data', (data) => {
+    current.on('data', (data) => {
       messageBuffer += data.toString();
 
       const lines = messageBuffer.split('\n');
@@ -60,15 +106,40 @@ function connectToDaemon(
       }
     });
 
-    socket.on('error', (error) => {
-      // Daemon not running - that's okay, run without it
-      resolve(null);
+    // Daemon not running - that's okay, keep running and try again later
+    current.on('error', () => {});
+
+    current.on('close', () => {
+      connected = false;
+      if (closed || socket !== current) return;
+
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
     });
-  });
+  }
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (connected) {
+        socket?.write(JSON.stringify({ ...message, sessionId }) + '\n');
+      }
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (connected) {
+        socket?.write(JSON.stringify({ type: 'session_end', sessionId }) + '\n');
+      }
+      socket?.end();
+    },
+  };
 }
 
-export async function run(command: string[]): Promise<void> {
+export async function run(requested: string[]): Promise<void> {
   const sessionId = randomUUID().slice(0, 8);
+  const { command, transcriptId } = bindTranscript(requested);
   const cwd = process.cwd();
   const projectDir = getClaudeProjectDir(cwd);
 
@@ -84,12 +155,20 @@ export async function run(command: string[]): Promise<void> {
     env: process.env as Record<string, string>,
   });
 
-  const daemon = await connectToDaemon(
+  // Reports permission prompts to the daemon so they can be answered from chat
+  const promptDetector = new PermissionPromptDetector({
+    onPrompt: (prompt) => daemon.send({ type: 'permission_prompt', prompt }),
+    onResolved: (promptId) => daemon.send({ type: 'permission_resolved', promptId }),
+  });
+
+  const daemon = connectToDaemon(
     sessionId,
     projectDir,
     cwd,
-    command,
+    requested,
+    transcriptId,
     (text) => {
+      promptDetector.noteInput(text);
       ptyProcess.write(text);
     }
   );
@@ -98,12 +177,25 @@ export async function run(command: string[]): Promise<void> {
     process.stdin.setRawMode(true);
   }
 
+  let outputTail = '';
+  let outputChanged = false;
+  const outputTimer = setInterval(() => {
+    if (!outputChanged) return;
+    outputChanged = false;
+    daemon.send({ type: 'output', text: outputTail });
+  }, OUTPUT_INTERVAL_MS);
+
   ptyProcess.onData((data: string) => {
     process.stdout.write(data);
+    promptDetector.feed(data);
+    outputTail = (outputTail + stripAnsi(data)).slice(-OUTPUT_TAIL_CHARS);
+    outputChanged = true;
   });
 
   const onStdinData = (data: Buffer) => {
-    ptyProcess.write(data.toString());
+    const text = data.toString();
+    promptDetector.noteInput(text);
+    ptyProcess.write(text);
   };
   process.stdin.on('data', onStdinData);
 
@@ -122,7 +214,9 @@ export async function run(command: string[]): Promise<void> {
         process.stdin.unref();
       }
 
-      daemon?.close();
+      clearInterval(outputTimer);
+      promptDetector.dispose();
+      daemon.close();
       resolve();
     });
   });
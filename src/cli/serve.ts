@@ -0,0 +1,122 @@
+import { SessionManager } from '../slack/session-manager.js';
+import { ChatRouter } from '../core/chat-router.js';
+import { loadSlackConfig } from './slack.js';
+import { loadDiscordConfig } from './discord.js';
+import { loadTelegramConfig } from './telegram.js';
+import { stopOnSignal } from './shutdown.js';
+
+const PLATFORMS = ['slack', 'discord', 'telegram'] as const;
+type Platform = (typeof PLATFORMS)[number];
+
+/**
+ * Run several chat platforms from one daemon. All of them share a single
+ * SessionManager and ChatRouter, so every session is relayed to each platform
+ * and input from any of them goes to the same terminal.
+ */
+export async function serveRun(requested: string[]): Promise<void> {
+  const unknown = requested.filter((p) => !PLATFORMS.includes(p as Platform));
+  if (unknown.length > 0) {
+    console.error(`Unknown platform: ${unknown.join(', ')}`);
+    console.error(`Available platforms: ${PLATFORMS.join(', ')}`);
+    process.exit(1);
+  }
+
+  // With no platforms named, start every platform that has been configured
+  const explicit = requested.length > 0;
+  const platforms = explicit ? (requested as Platform[]) : [...PLATFORMS];
+
+  const sessionManager = new SessionManager();
+  const router = new ChatRouter(sessionManager);
+  const starters: Array<{ platform: Platform; start: () => Promise<void> }> = [];
+
+  for (const platform of new Set(platforms)) {
+    switch (platform) {
+      case 'slack': {
+        const { config, missing } = await loadSlackConfig();
+        if (!config) {
+          skipPlatform(platform, missing, explicit);
+          break;
+        }
+        const { createSlackApp } = await import('../slack/slack-app.js');
+        const { app } = createSlackApp(config, router);
+        starters.push({ platform, start: async () => { await app.start(); } });
+        break;
+      }
+
+      case 'discord': {
+        const { config, missing } = await loadDiscordConfig();
+        if (!config) {
+          skipPlatform(platform, missing, explicit);
+          break;
+        }
+        const { createDiscordApp } = await import('../discord/discord-app.js');
+        const { client } = createDiscordApp(config, router);
+        starters.push({ platform, start: async () => { await client.login(config.botToken); } });
+        break;
+      }
+
+      case 'telegram': {
+        const { config, missing } = await loadTelegramConfig();
+        if (!config) {
+          skipPlatform(platform, missing, explicit);
+          break;
+        }
+        const { createTelegramApp } = await import('../telegram/telegram-app.js');
+        const { bot } = createTelegramApp(config, router);
+        starters.push({
+          platform,
+          start: async () => {
+            // bot.start() only resolves once polling stops, so don't wait for it
+            bot.start({
+              onStart: (botInfo) => console.log(`[AFK Code] Telegram bot @${botInfo.username} is running!`),
+            });
+          },
+        });
+        break;
+      }
+    }
+  }
+
+  if (starters.length === 0) {
+    console.error('No chat platforms are configured.');
+    console.error('');
+    console.error('Run one of these first:');
+    for (const platform of PLATFORMS) {
+      console.error(`  afk-code ${platform} setup`);
+    }
+    process.exit(1);
+  }
+
+  // Start session manager (Unix socket server for CLI connections)
+  try {
+    await sessionManager.start();
+    console.log('[AFK Code] Session manager started');
+  } catch (err) {
+    console.error('[AFK Code] Failed to start session manager:', err);
+    process.exit(1);
+  }
+  stopOnSignal(sessionManager);
+
+  for (const { platform, start } of starters) {
+    try {
+      await start();
+      console.log(`[AFK Code] Started ${platform}`);
+    } catch (err) {
+      console.error(`[AFK Code] Failed to start ${platform}:`, err);
+      process.exit(1);
+    }
+  }
+
+  console.log('');
+  console.log(`Serving ${starters.map((s) => s.platform).join(', ')}`);
+  console.log('Start a Claude Code session with: afk-code run -- claude');
+}
+
+function skipPlatform(platform: Platform, missing: string[], explicit: boolean): void {
+  if (explicit) {
+    console.error(`Missing ${platform} config: ${missing.join(', ')}`);
+    console.error(`Run "afk-code ${platform} setup" for guided configuration.`);
+    process.exit(1);
+  }
+  console.log(`[AFK Code] Skipping ${platform} (not configured)`);
+}
@@ -0,0 +1,18 @@
+import type { SessionManager } from '../slack/session-manager.js';
+import { flushStores } from '../utils/json-store.js';
+
+/**
+ * Stop cleanly on Ctrl-C or a service manager's SIGTERM: close the socket and
+ * write state whose save is still pending, so sessions can reconnect to the
+ * restarted bot and find their channels again.
+ */
+export function stopOnSignal(sessionManager: SessionManager): void {
+  const shutdown = (signal: NodeJS.Signals) => {
+    console.log(`[AFK Code] Received ${signal} - shutting down`);
+    sessionManager.stop();
+    flushStores();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
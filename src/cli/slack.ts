@@ -1,6 +1,12 @@
 import { homedir } from 'os';
 import { mkdir, writeFile, readFile, access } from 'fs/promises';
 import * as readline from 'readline';
+import type { SlackConfig } from '../slack/types.js';
+import { parseIdList } from '../core/access.js';
+import { parseNotificationPolicy } from '../core/notifications.js';
+import { parseToolCallPolicy } from '../core/tool-calls.js';
+import { parseArtifactPolicy } from '../core/artifacts.js';
+import { stopOnSignal } from './shutdown.js';
 
 const CONFIG_DIR = `${homedir()}/.afk-code`;
 const SLACK_CONFIG_FILE = `${CONFIG_DIR}/slack.env`;
@@ -120,12 +126,13 @@ async function loadEnvFile(path: string): Promise<Record<string, string>> {
   return config;
 }
 
-export async function slackRun(): Promise<void> {
-  // Load config from multiple sources (in order of precedence):
-  // 1. Environment variables (highest priority)
-  // 2. Local .env file
-  // 3. ~/.afk-code/slack.env (lowest priority)
-
+/**
+ * Load Slack config from multiple sources (in order of precedence):
+ * 1. Environment variables (highest priority)
+ * 2. Local .env file
+ * 3. ~/.afk-code/slack.env (lowest priority)
+ */
+export async function loadSlackConfig(): Promise<{ config: SlackConfig | null; missing: string[] }> {
   const globalConfig = await loadEnvFile(SLACK_CONFIG_FILE);
   const localConfig = await loadEnvFile(`${process.cwd()}/.env`);
 
@@ -139,12 +146,59 @@ export async function slackRun(): Promise<void> {
   if (process.env.SLACK_BOT_TOKEN) config.SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
   if (process.env.SLACK_APP_TOKEN) config.SLACK_APP_TOKEN = process.env.SLACK_APP_TOKEN;
   if (process.env.SLACK_USER_ID) config.SLACK_USER_ID = process.env.SLACK_USER_ID;
+  if (process.env.SLACK_ALLOWED_USERS) config.SLACK_ALLOWED_USERS = process.env.SLACK_ALLOWED_USERS;
+
+  if (process.env.SLACK_QUIET_HOURS) config.SLACK_QUIET_HOURS = process.env.SLACK_QUIET_HOURS;
+  if (process.env.SLACK_NOTIFY_DELAY) config.SLACK_NOTIFY_DELAY = process.env.SLACK_NOTIFY_DELAY;
+  if (process.env.SLACK_TOOL_CALLS) config.SLACK_TOOL_CALLS = process.env.SLACK_TOOL_CALLS;
+  if (process.env.SLACK_TOOL_CALLS_INCLUDE) config.SLACK_TOOL_CALLS_INCLUDE = process.env.SLACK_TOOL_CALLS_INCLUDE;
+  if (process.env.SLACK_TOOL_CALLS_EXCLUDE) config.SLACK_TOOL_CALLS_EXCLUDE = process.env.SLACK_TOOL_CALLS_EXCLUDE;
+  if (process.env.SLACK_ANNOUNCE_TODOS) config.SLACK_ANNOUNCE_TODOS = process.env.SLACK_ANNOUNCE_TODOS;
+  if (process.env.SLACK_STREAMING) config.SLACK_STREAMING = process.env.SLACK_STREAMING;
+  if (process.env.SLACK_ARTIFACT_EXTENSIONS) config.SLACK_ARTIFACT_EXTENSIONS = process.env.SLACK_ARTIFACT_EXTENSIONS;
+  if (process.env.SLACK_ARTIFACT_MAX_MB) config.SLACK_ARTIFACT_MAX_MB = process.env.SLACK_ARTIFACT_MAX_MB;
+  if (process.env.SLACK_ARTIFACT_ROOTS) config.SLACK_ARTIFACT_ROOTS = process.env.SLACK_ARTIFACT_ROOTS;
 
   // Validate required config
   const required = ['SLACK_BOT_TOKEN', 'SLACK_APP_TOKEN', 'SLACK_USER_ID'];
   const missing = required.filter((key) => !config[key]);
-
   if (missing.length > 0) {
+    return { config: null, missing };
+  }
+
+  return {
+    config: {
+      botToken: config.SLACK_BOT_TOKEN,
+      appToken: config.SLACK_APP_TOKEN,
+      signingSecret: '',
+      userId: config.SLACK_USER_ID,
+      allowedUserIds: parseIdList(config.SLACK_ALLOWED_USERS),
+      notifications: parseNotificationPolicy('Slack', config.SLACK_QUIET_HOURS, config.SLACK_NOTIFY_DELAY),
+      toolCalls: parseToolCallPolicy(
+        'Slack',
+        config.SLACK_TOOL_CALLS,
+        config.SLACK_TOOL_CALLS_INCLUDE,
+        config.SLACK_TOOL_CALLS_EXCLUDE,
+        'off'
+      ),
+      announceCompletedTodos: config.SLACK_ANNOUNCE_TODOS === 'true',
+      streamReplies: config.SLACK_STREAMING === 'true',
+      artifacts: parseArtifactPolicy(
+        'Slack',
+        config.SLACK_ARTIFACT_EXTENSIONS,
+        config.SLACK_ARTIFACT_MAX_MB,
+        config.SLACK_ARTIFACT_ROOTS,
+        100 * 1024 * 1024 // The platform's own upload limit
+      ),
+    },
+    missing,
+  };
+}
+
+export async function slackRun(): Promise<void> {
+  const { config: slackConfig, missing } = await loadSlackConfig();
+
+  if (!slackConfig) {
     console.error(`Missing config: ${missing.join(', ')}`);
     console.error('');
     console.error('Provide tokens via:');
@@ -155,9 +209,9 @@ export async function slackRun(): Promise<void> {
   }
 
   // Set environment variables and start the bot
-  process.env.SLACK_BOT_TOKEN = config.SLACK_BOT_TOKEN;
-  process.env.SLACK_APP_TOKEN = config.SLACK_APP_TOKEN;
-  process.env.SLACK_USER_ID = config.SLACK_USER_ID;
+  process.env.SLACK_BOT_TOKEN = slackConfig.botToken;
+  process.env.SLACK_APP_TOKEN = slackConfig.appToken;
+  process.env.SLACK_USER_ID = slackConfig.userId;
 
   // Import and run the slack bot
   const { createSlackApp } = await import('../slack/slack-app.js');
@@ -169,13 +223,6 @@ export async function slackRun(): Promise<void> {
   console.log(`[AFK Code] Loaded config from ${source}`);
   console.log('[AFK Code] Starting Slack bot...');
 
-  const slackConfig = {
-    botToken: config.SLACK_BOT_TOKEN,
-    appToken: config.SLACK_APP_TOKEN,
-    signingSecret: '',
-    userId: config.SLACK_USER_ID,
-  };
-
   const { app, sessionManager } = createSlackApp(slackConfig);
 
   // Start session manager (Unix socket server for CLI connections)
@@ -186,6 +233,7 @@ export async function slackRun(): Promise<void> {
     console.error('[AFK Code] Failed to start session manager:', err);
     process.exit(1);
   }
+  stopOnSignal(sessionManager);
 
   // Start Slack app
   try {
@@ -1,6 +1,12 @@
 import { homedir } from 'os';
 import { mkdir, writeFile, readFile, access } from 'fs/promises';
 import * as readline from 'readline';
+import type { TelegramConfig } from '../telegram/types.js';
+import { parseNotificationPolicy } from '../core/notifications.js';
+import { parseToolCallPolicy } from '../core/tool-calls.js';
+import { parseArtifactPolicy } from '../core/artifacts.js';
+import { parseTranscriber } from '../utils/transcription.js';
+import { stopOnSignal } from './shutdown.js';
 
 const CONFIG_DIR = `${homedir()}/.afk-code`;
 const TELEGRAM_CONFIG_FILE = `${CONFIG_DIR}/telegram.env`;
@@ -106,8 +112,11 @@ async function loadEnvFile(path: string): Promise<Record<string, string>> {
   return config;
 }
 
-export async function telegramRun(): Promise<void> {
-  // Load config
+/**
+ * Load Telegram config from environment variables, a local .env file
+ * and ~/.afk-code/telegram.env (in that order of precedence)
+ */
+export async function loadTelegramConfig(): Promise<{ config: TelegramConfig | null; missing: string[] }> {
   const globalConfig = await loadEnvFile(TELEGRAM_CONFIG_FILE);
   const localConfig = await loadEnvFile(`${process.cwd()}/.env`);
 
@@ -120,11 +129,57 @@ export async function telegramRun(): Promise<void> {
   if (process.env.TELEGRAM_BOT_TOKEN) config.TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
   if (process.env.TELEGRAM_CHAT_ID) config.TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID;
 
+  if (process.env.TELEGRAM_QUIET_HOURS) config.TELEGRAM_QUIET_HOURS = process.env.TELEGRAM_QUIET_HOURS;
+  if (process.env.TELEGRAM_NOTIFY_DELAY) config.TELEGRAM_NOTIFY_DELAY = process.env.TELEGRAM_NOTIFY_DELAY;
+  if (process.env.TELEGRAM_TOOL_CALLS) config.TELEGRAM_TOOL_CALLS = process.env.TELEGRAM_TOOL_CALLS;
+  if (process.env.TELEGRAM_TOOL_CALLS_INCLUDE) config.TELEGRAM_TOOL_CALLS_INCLUDE = process.env.TELEGRAM_TOOL_CALLS_INCLUDE;
+  if (process.env.TELEGRAM_TOOL_CALLS_EXCLUDE) config.TELEGRAM_TOOL_CALLS_EXCLUDE = process.env.TELEGRAM_TOOL_CALLS_EXCLUDE;
+  if (process.env.TELEGRAM_ANNOUNCE_TODOS) config.TELEGRAM_ANNOUNCE_TODOS = process.env.TELEGRAM_ANNOUNCE_TODOS;
+  if (process.env.TELEGRAM_STREAMING) config.TELEGRAM_STREAMING = process.env.TELEGRAM_STREAMING;
+  if (process.env.TELEGRAM_ARTIFACT_EXTENSIONS) config.TELEGRAM_ARTIFACT_EXTENSIONS = process.env.TELEGRAM_ARTIFACT_EXTENSIONS;
+  if (process.env.TELEGRAM_ARTIFACT_MAX_MB) config.TELEGRAM_ARTIFACT_MAX_MB = process.env.TELEGRAM_ARTIFACT_MAX_MB;
+  if (process.env.TELEGRAM_ARTIFACT_ROOTS) config.TELEGRAM_ARTIFACT_ROOTS = process.env.TELEGRAM_ARTIFACT_ROOTS;
+  if (process.env.TELEGRAM_TRANSCRIBER) config.TELEGRAM_TRANSCRIBER = process.env.TELEGRAM_TRANSCRIBER;
+  if (process.env.TELEGRAM_TRANSCRIBE_COMMAND) config.TELEGRAM_TRANSCRIBE_COMMAND = process.env.TELEGRAM_TRANSCRIBE_COMMAND;
+
   // Validate required config
   const required = ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID'];
   const missing = required.filter((key) => !config[key]);
-
   if (missing.length > 0) {
+    return { config: null, missing };
+  }
+
+  return {
+    config: {
+      botToken: config.TELEGRAM_BOT_TOKEN,
+      chatId: config.TELEGRAM_CHAT_ID,
+      notifications: parseNotificationPolicy('Telegram', config.TELEGRAM_QUIET_HOURS, config.TELEGRAM_NOTIFY_DELAY),
+      toolCalls: parseToolCallPolicy(
+        'Telegram',
+        config.TELEGRAM_TOOL_CALLS,
+        config.TELEGRAM_TOOL_CALLS_INCLUDE,
+        config.TELEGRAM_TOOL_CALLS_EXCLUDE,
+        'off'
+      ),
+      announceCompletedTodos: config.TELEGRAM_ANNOUNCE_TODOS === 'true',
+      streamReplies: config.TELEGRAM_STREAMING === 'true',
+      artifacts: parseArtifactPolicy(
+        'Telegram',
+        config.TELEGRAM_ARTIFACT_EXTENSIONS,
+        config.TELEGRAM_ARTIFACT_MAX_MB,
+        config.TELEGRAM_ARTIFACT_ROOTS,
+        50 * 1024 * 1024 // The platform's own upload limit
+      ),
+      transcriber: parseTranscriber('Telegram', config.TELEGRAM_TRANSCRIBER, config.TELEGRAM_TRANSCRIBE_COMMAND),
+    },
+    missing,
+  };
+}
+
+export async function telegramRun(): Promise<void> {
+  const { config: telegramConfig, missing } = await loadTelegramConfig();
+
+  if (!telegramConfig) {
     console.error(`Missing config: ${missing.join(', ')}`);
     console.error('');
     console.error('Run "afk-code telegram setup" for guided configuration.');
@@ -136,11 +191,6 @@ export async function telegramRun(): Promise<void> {
   // Import and create the Telegram app
   const { createTelegramApp } = await import('../telegram/telegram-app.js');
 
-  const telegramConfig = {
-    botToken: config.TELEGRAM_BOT_TOKEN,
-    chatId: config.TELEGRAM_CHAT_ID,
-  };
-
   const { bot, sessionManager } = createTelegramApp(telegramConfig);
 
   // Start session manager
@@ -150,6 +200,7 @@ export async function telegramRun(): Promise<void> {
     console.error('[AFK Code] Failed to start session manager:', err);
     process.exit(1);
   }
+  stopOnSignal(sessionManager);
 
   // Start bot
   bot.start({
@@ -0,0 +1,39 @@
+/**
+ * Who may send input and commands to sessions from a chat platform.
+ * A user is allowed if their ID is listed, or if they hold a listed role.
+ */
+export interface AccessPolicy {
+  userIds: string[];
+  roleIds?: string[];
+}
+
+export const ACCESS_DENIED_MESSAGE =
+  "🔒 Sorry, you're not allowed to control this session. Ask the session owner to add you to the allowlist.";
+
+/**
+ * Check a user against the policy, logging blocked attempts
+ */
+export function checkAccess(
+  platform: string,
+  policy: AccessPolicy,
+  userId: string | undefined,
+  roleIds: string[],
+  action: string
+): boolean {
+  if (userId && policy.userIds.includes(userId)) return true;
+  if (roleIds.some((role) => policy.roleIds?.includes(role))) return true;
+
+  console.warn(`[${platform}] Blocked ${action} from unauthorized user ${userId ?? 'unknown'}`);
+  return false;
+}
+
+/**
+ * Parse a comma- or space-separated list of IDs from config
+ */
+export function parseIdList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,61 @@
+/**
+ * Which files Claude mentions get uploaded to a chat platform: those with an
+ * allowed extension (images, PDFs, HTML reports, CSVs, logs by default) that
+ * fit under the platform's size cap. Larger ones are listed instead. Files
+ * must also be inside the session's directory or an extra root (see upload-sandbox).
+ */
+
+import { homedir } from 'os';
+import { resolve } from 'path';
+
+export interface ArtifactPolicy {
+  extensions: string[]; // Lowercase, with the dot
+  maxBytes: number;
+  roots: string[]; // Directories besides the session's that files may be uploaded from
+}
+
+export const DEFAULT_ARTIFACT_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.bmp', '.ico', '.tiff', '.tif',
+  '.pdf', '.html', '.htm', '.csv', '.tsv', '.log',
+];
+
+/**
+ * Build a policy from config values, e.g. extensions "pdf,.html,csv" (which
+ * replace the defaults), a cap of "10" MB and extra roots "~/reports,/tmp/out".
+ * An invalid cap is reported and the platform's own limit used instead.
+ */
+export function parseArtifactPolicy(
+  platform: string,
+  extensions: string | undefined,
+  maxMegabytes: string | undefined,
+  roots: string | undefined,
+  fallbackMaxBytes: number
+): ArtifactPolicy {
+  const policy: ArtifactPolicy = { extensions: DEFAULT_ARTIFACT_EXTENSIONS, maxBytes: fallbackMaxBytes, roots: [] };
+
+  if (extensions) {
+    policy.extensions = extensions
+      .split(',')
+      .map((ext) => ext.trim().toLowerCase().replace(/^\.?/, '.'))
+      .filter((ext) => ext !== '.');
+  }
+
+  if (maxMegabytes) {
+    const megabytes = Number(maxMegabytes);
+    if (Number.isFinite(megabytes) && megabytes > 0) {
+      policy.maxBytes = Math.min(megabytes * 1024 * 1024, fallbackMaxBytes);
+    } else {
+      console.warn(`[${platform}] Ignoring invalid upload size cap "${maxMegabytes}" (expected megabytes)`);
+    }
+  }
+
+  if (roots) {
+    policy.roots = roots
+      .split(',')
+      .map((root) => root.trim())
+      .filter(Boolean)
+      .map((root) => (root === '~' || root.startsWith('~/') ? resolve(homedir(), root.slice(2)) : resolve(root)));
+  }
+
+  return policy;
+}
@@ -0,0 +1,99 @@
+import type { SessionInfo } from '../slack/session-manager.js';
+import type { NotificationPolicy } from './notifications.js';
+import type { ToolCallPolicy } from './tool-calls.js';
+import type { ArtifactPolicy } from './artifacts.js';
+
+export type SessionStatus = 'running' | 'idle' | 'ended';
+
+/**
+ * A message an adapter has posted, so it can be edited or replied to later.
+ * `channelId` is wherever the message lives on the platform (a Slack channel,
+ * a Discord channel or thread, a Telegram chat).
+ */
+export interface MessageRef {
+  sessionId: string;
+  channelId: string;
+  messageId: string;
+}
+
+/**
+ * A button attached to a message. When clicked, the adapter passes `id`
+ * to `ChatRouter.handleAction`.
+ */
+export interface ChatAction {
+  id: string;
+  label: string;
+  style?: 'primary' | 'danger';
+}
+
+export interface SendOptions {
+  /** Who the message speaks for - adapters choose name, avatar, prefix or notification from it */
+  author?: 'user' | 'assistant' | 'system';
+  /** Platform a user message was typed on, when it wasn't the terminal */
+  origin?: string;
+  /** Post as a reply to (or in a thread under) an earlier message */
+  replyTo?: MessageRef;
+  /** Name for the thread a reply starts, on platforms that name threads */
+  threadName?: string;
+  /** Buttons to attach to the (last) message */
+  actions?: ChatAction[];
+}
+
+/**
+ * A local file to upload, with the caption to show for it
+ */
+export interface UploadFile {
+  filePath: string;
+  caption?: string;
+}
+
+/**
+ * Contract between the shared ChatRouter and a chat platform.
+ *
+ * The router turns session events into Markdown and decides what to post;
+ * an adapter only has to map sessions to its own channels, render and deliver
+ * messages, and hand inbound messages, commands and button clicks back to the
+ * router (`ChatRouter.handleInput` / `runCommand` / `handleAction`).
+ */
+export interface ChatAdapter {
+  /** Platform name, used in log lines and to label relayed input */
+  readonly name: string;
+  /** Which tool calls are posted, and whether with their results (`/verbose` overrides it per session) */
+  readonly toolCalls: ToolCallPolicy;
+  /** When the platform's user may be alerted; see `notify` */
+  readonly notifications: NotificationPolicy;
+  /** Whether to post a short line each time a todo item is completed, besides updating the task list */
+  readonly announceCompletedTodos: boolean;
+  /** Whether Claude's replies are posted as a turn starts and edited as text comes in, rather than once complete */
+  readonly streamReplies: boolean;
+  /** Which files mentioned by Claude are uploaded, and up to what size */
+  readonly artifacts: ArtifactPolicy;
+  /** Shortest time between edits of one message that keeps under the platform's rate limits */
+  readonly editIntervalMs: number;
+
+  /** Create the channel (or equivalent) for a new session, or reattach to the one it had before a restart */
+  openSession(session: SessionInfo): Promise<void>;
+  /** Say goodbye and archive the session's channel */
+  closeSession(sessionId: string): Promise<void>;
+  renameSession(sessionId: string, name: string): Promise<void>;
+  setStatus(sessionId: string, status: SessionStatus): Promise<void>;
+
+  /** Post Markdown text silently, chunked to the platform limit. Returns the last message posted */
+  send(sessionId: string, markdown: string, options?: SendOptions): Promise<MessageRef | null>;
+  /**
+   * Replace the text of a message posted earlier, and its buttons (removed unless
+   * `actions` is given). `author` should match what the message was sent with.
+   */
+  edit(ref: MessageRef, markdown: string, actions?: ChatAction[], author?: SendOptions['author']): Promise<void>;
+  /** Delete a message posted earlier */
+  remove(ref: MessageRef): Promise<void>;
+  /** Pin a message to the session's channel (or the chat) */
+  pin(ref: MessageRef): Promise<void>;
+  unpin(ref: MessageRef): Promise<void>;
+  /** Post a short message that alerts the user (mention, ping or sound) */
+  notify(sessionId: string, markdown: string): Promise<void>;
+  /** Upload a local file into the session's channel */
+  upload(sessionId: string, filePath: string, caption?: string): Promise<void>;
+  /** Upload several images together, as one album or message where the platform allows */
+  uploadAlbum(sessionId: string, files: UploadFile[]): Promise<void>;
+}
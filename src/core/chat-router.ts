@@ -0,0 +1,1225 @@
+/**
+ * Shared core for all chat platforms - turns session events into messages,
+ * fans them out to every registered adapter, and routes chat input and
+ * commands back to the right session.
+ */
+
+import { stat } from 'fs/promises';
+import { extname } from 'path';
+import type { SessionManager, ToolCallInfo, ToolResultInfo } from '../slack/session-manager.js';
+import type { ChatAdapter, ChatAction, MessageRef } from './chat-adapter.js';
+import type { TodoItem } from '../types.js';
+import { parsePlanApprovalOptions, type PermissionOption } from '../utils/permission-prompt.js';
+import { parseAskUserQuestion, answerKeys, type QuestionAnswer, type AskQuestion } from '../utils/ask-user-question.js';
+import { findSessionCommand } from './commands.js';
+import { isQuietTime, type NotifyReason } from './notifications.js';
+import { isToolVerbosity, toolVerbosity, TOOL_VERBOSITIES, type ToolVerbosity } from './tool-calls.js';
+import {
+  formatSessionStatus,
+  formatTodoList,
+  formatToolCall,
+  formatToolResult,
+  formatPermissionPrompt,
+  formatQuestion,
+  formatPlanReview,
+  formatSubagentStart,
+  formatSubagentResult,
+  formatEditDiff,
+  formatWithheldDiff,
+  isShortDiff,
+  formatRunningCommand,
+  formatFinishedCommand,
+  formatSkippedArtifacts,
+} from '../slack/message-formatter.js';
+import { extractArtifactPaths, type ExtractedArtifact } from '../utils/artifact-extractor.js';
+import { auditUpload, realPath, uploadRefusal } from '../utils/upload-sandbox.js';
+import { ALBUM_EXTENSIONS, prepareImage } from '../utils/image-pipeline.js';
+import { editDiff, editedFilePath, writeDiffFile } from '../utils/edit-diff.js';
+import { commandOutputTail } from '../utils/terminal-output.js';
+import { downloadAttachment, removeAttachments, withAttachments, type InboundFile } from '../utils/attachments.js';
+
+const SEND_FAILED = '⚠️ Failed to send input - session not connected.';
+
+// Running commands' messages are updated this often (each adapter may edit less often)...
+const LIVE_TICK_MS = 1000;
+// ...once they have run this long, so quick commands aren't edited at all until done
+const LIVE_DELAY_MS = 3000;
+// ...and no longer than Bash's own longest timeout, in case the result never comes
+const LIVE_MAX_MS = 10 * 60 * 1000;
+
+// Streamed replies: shown until Claude's first words arrive, and after the text while it's still coming
+const STREAM_PLACEHOLDER = '💭 _Thinking…_';
+const STREAM_CURSOR = ' ▍';
+// A streamed reply carries on in a new message past this length, to stay within every platform's limit
+const STREAM_MAX_LENGTH = 1800;
+
+// Claude's reply being edited into one message as it's written
+interface StreamedReply {
+  ref: MessageRef;
+  text: string; // Empty while the message is still the placeholder
+  lastEdit: number;
+  timer: ReturnType<typeof setTimeout> | null; // Pending edit
+}
+
+interface ChoiceButton {
+  label: string;
+  style?: ChatAction['style'];
+}
+
+interface ChoiceOption extends ChoiceButton {
+  keys: string; // Raw keystrokes written to the terminal when chosen
+  outcome: string; // Shown on the message once chosen
+}
+
+/**
+ * Handles a click on button `index` of a choice. `who` names the clicker
+ * for outcome lines, e.g. "by alice (Slack)". Returns a note for the
+ * clicker, or null.
+ */
+type ChoiceHandler = (choiceId: string, index: number, who: string) => string | null;
+
+// A question posted with buttons, waiting for an answer from any chat
+interface PendingChoice {
+  sessionId: string;
+  source: string; // What asked, e.g. "permission:3" or "question:<tool use ID>:0"
+  text: string;
+  buttons: ChoiceButton[];
+  select: ChoiceHandler;
+  messages: Map<ChatAdapter, MessageRef>;
+}
+
+// A question waiting for the next chat message as its answer (e.g. "Other" or feedback)
+interface TextReply {
+  choiceId: string;
+  handle: (text: string, adapter: ChatAdapter) => string | null;
+}
+
+// An AskUserQuestion call; its answers are typed into the terminal once all are in
+interface PendingQuestions {
+  sessionId: string;
+  questions: AskQuestion[];
+  answers: Array<QuestionAnswer | undefined>;
+  choiceIds: string[];
+}
+
+// A Task call whose sub-agent is relayed in a thread under its message
+interface SubagentThread {
+  sessionId: string;
+  text: string;
+  threadName: string;
+}
+
+// A Bash call whose message shows the command's output while it runs
+interface LiveCommand {
+  sessionId: string;
+  tool: ToolCallInfo;
+  startedAt: number;
+  frame: number;
+  timer: ReturnType<typeof setInterval>;
+  messages: Map<ChatAdapter, MessageRef>;
+  lastEdits: Map<ChatAdapter, number>;
+  editing: Set<ChatAdapter>; // Edits still in flight, so slow platforms don't queue up stale ones
+}
+
+// A streamed reply that is still being written, with the cursor on a line of its own after a code block
+function withCursor(text: string): string {
+  return text.endsWith('```') ? `${text}\n${STREAM_CURSOR.trim()}` : text + STREAM_CURSOR;
+}
+
+// Button label, outcome and style for each permission prompt option
+function permissionChoice(option: PermissionOption): ChoiceOption {
+  if (/^yes\b.*don't ask again/i.test(option.label)) {
+    return { label: 'Approve always', keys: option.key, outcome: '✅ Approved (always)', style: 'primary' };
+  }
+  if (/^yes\b/i.test(option.label)) {
+    return { label: 'Approve', keys: option.key, outcome: '✅ Approved', style: 'primary' };
+  }
+  if (/^no\b/i.test(option.label)) {
+    return { label: 'Deny', keys: option.key, outcome: '❌ Denied', style: 'danger' };
+  }
+  return { label: option.label.slice(0, 70), keys: option.key, outcome: `☑️ ${option.label}` };
+}
+
+export class ChatRouter {
+  readonly sessionManager: SessionManager;
+  private adapters: ChatAdapter[] = [];
+  // Input typed in a chat (keyed by text), so its JSONL echo isn't posted back to the same chat
+  private pendingEchoes = new Map<string, ChatAdapter>();
+  // Tool call messages per adapter, for threading results under them
+  private toolCallMessages = new Map<ChatAdapter, Map<string, MessageRef>>();
+  // Per adapter and session, the tail of the delivery chain that keeps posts in order
+  private deliveries = new Map<ChatAdapter, Map<string, Promise<void>>>();
+  // Questions with buttons that haven't been answered yet, by choice ID
+  private choices = new Map<string, PendingChoice>();
+  private nextChoiceId = 1;
+  // AskUserQuestion calls waiting for answers, by tool use ID
+  private questions = new Map<string, PendingQuestions>();
+  // Sessions whose next chat message answers a question instead of going to the terminal
+  private textReplies = new Map<string, TextReply>();
+  // Running sub-agents, by Task tool use ID (their messages are in toolCallMessages)
+  private subagents = new Map<string, SubagentThread>();
+  // Each session's latest todo list, and its pinned message per adapter
+  private todoLists = new Map<string, TodoItem[]>();
+  private todoMessages = new Map<ChatAdapter, Map<string, MessageRef>>();
+  // Bash calls still running, by tool use ID
+  private liveCommands = new Map<string, LiveCommand>();
+  // Replies being streamed, per adapter and session (only touched from the delivery chain)
+  private streams = new Map<ChatAdapter, Map<string, StreamedReply>>();
+  // Tool call verbosity set with /verbose, per adapter and session (else the adapter's default)
+  private verbosity = new Map<ChatAdapter, Map<string, ToolVerbosity>>();
+  // Alerts waiting out each adapter's delay, per adapter and session
+  private notifications = new Map<ChatAdapter, Map<string, { reason: NotifyReason; timer: ReturnType<typeof setTimeout> }>>();
+
+  constructor(sessionManager: SessionManager) {
+    this.sessionManager = sessionManager;
+
+    sessionManager.addListener({
+      onSessionStart: (session, resumed) => {
+        // Adapters keep the channel of a resumed session, so openSession reattaches to it
+        const text = resumed
+          ? `🔄 **Session reconnected**: ${session.name}`
+          : `${formatSessionStatus(session.status)} **Session started**: ${session.name}\n\`${session.cwd}\``;
+
+        this.deliver(session.id, async (adapter) => {
+          await adapter.openSession(session);
+          await adapter.setStatus(session.id, session.status);
+          await adapter.send(session.id, text);
+        });
+      },
+
+      onSessionEnd: (sessionId) => {
+        this.cancelNotifications(sessionId, ['idle', 'permission', 'error']);
+        this.deliver(sessionId, async (adapter) => {
+          await this.endStream(adapter, sessionId);
+          // Telegram shares one chat between sessions, so don't leave the task list pinned there
+          const todoMessage = this.todoMessages.get(adapter)!.get(sessionId);
+          if (todoMessage) {
+            await adapter.unpin(todoMessage).catch(() => {});
+          }
+          await adapter.closeSession(sessionId);
+        });
+        this.forgetSession(sessionId);
+        removeAttachments(sessionId).catch((err) => {
+          console.error(`[ChatRouter] Failed to remove attachments of session ${sessionId}:`, err.message);
+        });
+      },
+
+      onSessionUpdate: (sessionId, name) => {
+        this.deliver(sessionId, (adapter) => adapter.renameSession(sessionId, name));
+      },
+
+      onSessionStatus: (sessionId, status) => {
+        this.deliver(sessionId, async (adapter) => {
+          await adapter.setStatus(sessionId, status);
+          if (!adapter.streamReplies) return;
+          // A turn (or the work after a permission prompt) starts with a placeholder to stream into
+          if (status === 'running') {
+            await this.startStream(adapter, sessionId);
+          } else {
+            await this.endStream(adapter, sessionId);
+          }
+        });
+
+        if (status === 'idle') {
+          this.scheduleNotification(sessionId, 'idle', '✅ Claude is waiting for you');
+        } else if (status === 'running') {
+          // Picked up again before anyone was alerted
+          this.cancelNotifications(sessionId, ['idle', 'permission']);
+        }
+      },
+
+      onSessionError: (sessionId, message) => {
+        const summary = message.length > 200 ? `${message.slice(0, 200)}...` : message;
+        this.scheduleNotification(sessionId, 'error', `❌ Claude hit an error: ${summary}`);
+      },
+
+      onMessage: (sessionId, role, content) => {
+        if (role === 'user') {
+          // Skip the chat the message was typed in (already visible there)
+          const contentKey = content.trim();
+          const origin = this.pendingEchoes.get(contentKey);
+          this.pendingEchoes.delete(contentKey);
+
+          this.deliver(sessionId, async (adapter) => {
+            await this.endStream(adapter, sessionId);
+            if (adapter === origin) return;
+            await adapter.send(sessionId, content, { author: 'user', origin: origin?.name });
+          });
+          return;
+        }
+
+        // Find the files mentioned in the response once, then upload them everywhere
+        const session = this.sessionManager.getSession(sessionId);
+        const artifacts = extractArtifactPaths(content, session?.cwd);
+        // ...and convert or scale images once, for the first adapter that uploads them
+        const prepared = new Map<string, Promise<string>>();
+        const prepare = (artifact: ExtractedArtifact) => {
+          let path = prepared.get(artifact.resolvedPath);
+          if (!path) {
+            path = prepareImage(artifact.resolvedPath);
+            prepared.set(artifact.resolvedPath, path);
+          }
+          return path;
+        };
+
+        this.deliver(sessionId, async (adapter) => {
+          if (adapter.streamReplies) {
+            await this.appendToStream(adapter, sessionId, content);
+          } else {
+            await adapter.send(sessionId, content, { author: 'assistant' });
+          }
+          await this.uploadArtifacts(adapter, sessionId, artifacts, session?.cwd, prepare);
+        });
+      },
+
+      onTodos: (sessionId, todos) => {
+        if (todos.length === 0) return;
+
+        // Items that were open in the last list and are done now
+        const previous = this.todoLists.get(sessionId) ?? [];
+        const completed = todos.filter(
+          (t) =>
+            t.status === 'completed' &&
+            previous.some((p) => p.content === t.content && p.status !== 'completed')
+        );
+        this.todoLists.set(sessionId, todos);
+
+        const text = formatTodoList(todos);
+        this.deliver(sessionId, async (adapter) => {
+          // One pinned message per session, edited as the list changes
+          const messages = this.todoMessages.get(adapter)!;
+          const ref = messages.get(sessionId);
+          if (ref) {
+            await adapter.edit(ref, text);
+          } else {
+            const posted = await adapter.send(sessionId, text);
+            if (posted) {
+              messages.set(sessionId, posted);
+              await adapter.pin(posted).catch((err) => {
+                console.error(`[${adapter.name}] Failed to pin the task list:`, err.message);
+              });
+            }
+          }
+
+          if (adapter.announceCompletedTodos) {
+            for (const todo of completed) {
+              await adapter.send(sessionId, `✅ Completed: ${todo.content}`);
+            }
+          }
+        });
+      },
+
+      onToolCall: (sessionId, tool) => {
+        // Questions get buttons on every platform instead of a tool call message
+        if (tool.name === 'AskUserQuestion') {
+          this.askQuestions(sessionId, tool);
+          return;
+        }
+        if (tool.name === 'ExitPlanMode' && typeof tool.input.plan === 'string') {
+          this.reviewPlan(sessionId, tool);
+          return;
+        }
+        if (tool.name === 'Task') {
+          this.startSubagent(sessionId, tool);
+          return;
+        }
+
+        // File edits are shown as diffs; worked out (and written out, if long) once for all adapters.
+        // A diff shows the file's old contents, so it is only made for files the upload
+        // sandbox allows from the session's directory - not for .env, dotfiles or files elsewhere
+        const cwd = this.sessionManager.getSession(sessionId)?.cwd;
+        const editedPath = editedFilePath(tool, cwd);
+        const diffRefusal = editedPath ? uploadRefusal(realPath(editedPath), cwd ? [cwd] : []) : null;
+        const diff = editedPath && !diffRefusal ? editDiff(tool, cwd) : Promise.resolve(null);
+        const diffFile = diff
+          .then((d) => (d && !isShortDiff(d) ? writeDiffFile(d) : null))
+          .catch((err) => {
+            console.error('[ChatRouter] Failed to write diff file:', err);
+            return null;
+          });
+
+        if (tool.name === 'Bash') {
+          this.startLiveCommand(sessionId, tool);
+        }
+
+        this.deliver(sessionId, async (adapter) => {
+          const verbosity = this.toolVerbosity(adapter, sessionId, tool.name);
+          if (verbosity === 'off') return;
+
+          const [d, file] = await Promise.all([diff, diffFile]);
+          let text: string;
+          if (editedPath && diffRefusal) {
+            text = formatWithheldDiff(tool, diffRefusal);
+            auditUpload(adapter.name, sessionId, editedPath, diffRefusal);
+          } else {
+            text = d ? formatEditDiff(tool, d, !file) : formatToolCall(tool);
+          }
+          await this.endStream(adapter, sessionId);
+          const ref = await adapter.send(sessionId, text);
+          if (ref) {
+            this.liveCommands.get(tool.id)?.messages.set(adapter, ref);
+          }
+          if (file) {
+            await adapter.upload(sessionId, file, `📎 ${d!.path}`);
+            auditUpload(adapter.name, sessionId, file, null);
+          }
+          // Only a full call gets its result threaded under it
+          if (ref && verbosity === 'full') {
+            this.toolCallMessages.get(adapter)?.set(tool.id, ref);
+          }
+        });
+      },
+
+      onToolResult: (sessionId, result) => {
+        // Still unanswered in chat, so it was answered in the terminal
+        if (this.questions.has(result.toolUseId)) {
+          this.settleQuestions(result.toolUseId, '⌨️ Answered in the terminal');
+        }
+        const planChoiceId = this.findChoice(sessionId, `plan:${result.toolUseId}`);
+        if (planChoiceId) {
+          this.resolveChoice(planChoiceId, '⌨️ Answered in the terminal');
+        }
+        if (this.subagents.has(result.toolUseId)) {
+          this.finishSubagent(sessionId, result);
+          return;
+        }
+        if (this.liveCommands.has(result.toolUseId)) {
+          this.finishLiveCommand(result);
+        }
+
+        const text = formatToolResult(result);
+        this.deliver(sessionId, async (adapter) => {
+          const calls = this.toolCallMessages.get(adapter);
+          const parent = calls?.get(result.toolUseId);
+          if (!parent) return; // Call not shown in full, so no parent message to reply to
+
+          calls!.delete(result.toolUseId);
+          await adapter.send(sessionId, text, { replyTo: parent });
+        });
+      },
+
+      onPlanModeChange: (sessionId, inPlanMode) => {
+        const emoji = inPlanMode ? '📋' : '🔨';
+        const status = inPlanMode
+          ? 'Planning mode - Claude is designing a solution'
+          : 'Execution mode - Claude is implementing';
+        this.deliver(sessionId, async (adapter) => {
+          await adapter.send(sessionId, `${emoji} ${status}`);
+        });
+      },
+
+      onSubagentMessage: (sessionId, toolUseId, content) => {
+        const subagent = this.subagents.get(toolUseId);
+        if (!subagent) return;
+
+        this.deliver(sessionId, async (adapter) => {
+          const parent = this.toolCallMessages.get(adapter)?.get(toolUseId);
+          if (!parent) return;
+          await adapter.send(sessionId, content, {
+            author: 'assistant',
+            replyTo: parent,
+            threadName: subagent.threadName,
+          });
+        });
+      },
+
+      onConversationReset: (sessionId, reason) => {
+        const markers = {
+          cleared: '🧹 **Conversation cleared** - Claude is starting fresh',
+          compacted: '🗜️ **Conversation compacted** - earlier messages were summarized',
+          resumed: '↪️ **Conversation resumed** - Claude switched to another transcript',
+        };
+        if (reason === 'cleared') {
+          this.todoLists.delete(sessionId);
+        }
+
+        this.deliver(sessionId, async (adapter) => {
+          await adapter.send(sessionId, markers[reason]);
+
+          // The old task list is done with - the next one gets a fresh pinned message
+          const todoMessage = this.todoMessages.get(adapter)!.get(sessionId);
+          if (reason === 'cleared' && todoMessage) {
+            this.todoMessages.get(adapter)!.delete(sessionId);
+            await adapter.unpin(todoMessage).catch(() => {});
+          }
+        });
+      },
+
+      onPermissionPrompt: (sessionId, prompt) => {
+        const options = prompt.options.map(permissionChoice);
+        this.postChoice(sessionId, `permission:${prompt.id}`, formatPermissionPrompt(prompt), options, (choiceId, index, who) => {
+          const option = options[index];
+          if (!this.sessionManager.sendKeys(sessionId, option.keys)) {
+            return SEND_FAILED;
+          }
+          this.resolveChoice(choiceId, `${option.outcome} ${who}`);
+          return null;
+        });
+        this.scheduleNotification(sessionId, 'permission', '🔐 Claude needs your permission');
+      },
+
+      onPermissionResolved: (sessionId, promptId) => {
+        this.cancelNotifications(sessionId, ['permission']);
+        const choiceId = this.findChoice(sessionId, `permission:${promptId}`);
+        if (choiceId) {
+          this.resolveChoice(choiceId, '⌨️ Answered in the terminal');
+        }
+      },
+    });
+  }
+
+  addAdapter(adapter: ChatAdapter): void {
+    this.adapters.push(adapter);
+    this.toolCallMessages.set(adapter, new Map());
+    this.deliveries.set(adapter, new Map());
+    this.notifications.set(adapter, new Map());
+    this.verbosity.set(adapter, new Map());
+    this.todoMessages.set(adapter, new Map());
+    this.streams.set(adapter, new Map());
+  }
+
+  /**
+   * Forward a chat message to the session's terminal.
+   * Returns a warning to show the user, or null when the input was sent.
+   */
+  handleInput(adapter: ChatAdapter, sessionId: string, text: string): string | null {
+    if (!this.sessionManager.getSession(sessionId)) {
+      return '⚠️ This session has ended.';
+    }
+
+    // A question asked for a typed answer
+    const reply = this.textReplies.get(sessionId);
+    if (reply) {
+      this.textReplies.delete(sessionId);
+      return reply.handle(text, adapter);
+    }
+
+    console.log(`[${adapter.name}] Sending input to session ${sessionId}: ${text.slice(0, 50)}...`);
+
+    // Track this message so we don't re-post it when it comes back via JSONL
+    const contentKey = text.trim();
+    this.pendingEchoes.set(contentKey, adapter);
+
+    const sent = this.sessionManager.sendInput(sessionId, text);
+    if (!sent) {
+      this.pendingEchoes.delete(contentKey);
+      return SEND_FAILED;
+    }
+    return null;
+  }
+
+  /**
+   * Forward a chat message with attached files to the session's terminal. The
+   * files are downloaded for the session and their paths added to the text.
+   * Returns a warning to show the user, or null when everything was sent.
+   */
+  async handleInputWithFiles(
+    adapter: ChatAdapter,
+    sessionId: string,
+    text: string,
+    files: InboundFile[]
+  ): Promise<string | null> {
+    if (!this.sessionManager.getSession(sessionId)) {
+      return '⚠️ This session has ended.';
+    }
+
+    const paths: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const path = await downloadAttachment(sessionId, file);
+        console.log(`[${adapter.name}] Saved attachment for session ${sessionId}: ${path}`);
+        paths.push(path);
+      } catch (err: any) {
+        console.error(`[${adapter.name}] Failed to download attachment ${file.name}:`, err.message);
+        failed.push(err.message);
+      }
+    }
+
+    const warnings = failed.map((reason) => `⚠️ Attachment not sent - ${reason}`);
+    if (paths.length > 0 || text.trim()) {
+      const warning = this.handleInput(adapter, sessionId, withAttachments(text, paths));
+      if (warning) warnings.unshift(warning);
+    }
+    return warnings.length > 0 ? warnings.join('\n') : null;
+  }
+
+  /**
+   * Run one of the shared session commands (see SESSION_COMMANDS).
+   * Returns the reply to show the user.
+   */
+  runCommand(adapter: ChatAdapter, sessionId: string | undefined, name: string, arg = ''): string {
+    const command = findSessionCommand(name);
+    if (!command) {
+      return `Unknown command: /${name}`;
+    }
+
+    if (!sessionId) {
+      return '⚠️ This channel is not associated with an active session.';
+    }
+
+    if (!this.sessionManager.getSession(sessionId)) {
+      return '⚠️ This session has ended.';
+    }
+
+    const value = arg.trim();
+    if (!command.input || !command.reply) {
+      // Changes what the bot relays rather than anything in the terminal
+      return this.runBotCommand(adapter, sessionId, command.name, value);
+    }
+
+    const input = command.input(value);
+    if (input === null) {
+      return command.usage || `Usage: \`/${command.name}\``;
+    }
+
+    console.log(`[${adapter.name}] Running /${command.name} in session ${sessionId}`);
+
+    const sent = this.sessionManager.sendInput(sessionId, input);
+    return sent ? command.reply(value) : '⚠️ Failed to send command - session not connected.';
+  }
+
+  private runBotCommand(adapter: ChatAdapter, sessionId: string, name: string, arg: string): string {
+    switch (name) {
+      case 'verbose': {
+        const current = this.verbosity.get(adapter)!.get(sessionId) ?? adapter.toolCalls.verbosity;
+        if (!arg) {
+          return `🔧 Tool calls are shown: **${current}**`;
+        }
+
+        const verbosity = arg.toLowerCase();
+        if (!isToolVerbosity(verbosity)) {
+          return `Usage: \`/verbose <${TOOL_VERBOSITIES.join('|')}>\``;
+        }
+
+        console.log(`[${adapter.name}] Tool call verbosity for session ${sessionId}: ${verbosity}`);
+        this.verbosity.get(adapter)!.set(sessionId, verbosity);
+        return `🔧 Tool calls are now shown: **${verbosity}**`;
+      }
+
+      default:
+        return `Unknown command: /${name}`;
+    }
+  }
+
+  // How much of a call to `toolName` the adapter shows in this session
+  private toolVerbosity(adapter: ChatAdapter, sessionId: string, toolName: string): ToolVerbosity {
+    return toolVerbosity(adapter.toolCalls, toolName, this.verbosity.get(adapter)!.get(sessionId));
+  }
+
+  /**
+   * Handle a button click (see ChatAction).
+   * Returns a note or warning to show the user who clicked, or null.
+   */
+  handleAction(adapter: ChatAdapter, actionId: string, userName?: string): string | null {
+    const [, choiceId, index] = actionId.split(':');
+    const choice = this.choices.get(choiceId);
+    if (!choice) {
+      return 'This question has already been answered.';
+    }
+
+    const button = choice.buttons[Number(index)];
+    if (!button) return null;
+
+    if (!this.sessionManager.getSession(choice.sessionId)) {
+      return '⚠️ This session has ended.';
+    }
+
+    console.log(`[${adapter.name}] ${button.label} chosen for ${choice.source} in session ${choice.sessionId}`);
+
+    const who = `${userName ? `by ${userName} ` : ''}(${adapter.name})`;
+    return choice.select(choiceId, Number(index), who);
+  }
+
+  // Post each question of an AskUserQuestion call with one button per option
+  private askQuestions(sessionId: string, tool: ToolCallInfo): void {
+    const questions = parseAskUserQuestion(tool.input);
+    if (questions.length === 0) return;
+
+    const pending: PendingQuestions = { sessionId, questions, answers: [], choiceIds: [] };
+    this.questions.set(tool.id, pending);
+
+    questions.forEach((question, index) => {
+      const optionButtons: ChoiceButton[] = question.options.map((option) => ({ label: option.label.slice(0, 70) }));
+      const otherIndex = optionButtons.length;
+      const doneIndex = otherIndex + 1; // Multi-select only
+      const buttons: ChoiceButton[] = [...optionButtons, { label: 'Other…' }];
+      if (question.multiSelect) {
+        buttons.push({ label: 'Done', style: 'primary' });
+      }
+
+      // Options picked so far in a multi-select question
+      const selected: number[] = [];
+
+      const choiceId = this.postChoice(
+        sessionId,
+        `question:${tool.id}:${index}`,
+        formatQuestion(question, index, questions.length),
+        buttons,
+        (choiceId, i, who) => {
+          if (i === otherIndex) {
+            // The answer goes into the question's text field
+            this.textReplies.set(sessionId, {
+              choiceId,
+              handle: (text, adapter) => {
+                const answer = text.replace(/\s*\n\s*/g, ' ').trim();
+                return this.answerQuestion(tool.id, index, { kind: 'other', text: answer }, `✏️ "${answer}" (${adapter.name})`);
+              },
+            });
+            return '✏️ Send your answer as the next message for this session.';
+          }
+
+          if (!question.multiSelect) {
+            return this.answerQuestion(tool.id, index, { kind: 'option', index: i }, `☑️ ${question.options[i].label} ${who}`);
+          }
+
+          if (i === doneIndex) {
+            if (selected.length === 0) return 'Pick at least one option first.';
+            const labels = [...selected].sort((a, b) => a - b).map((n) => question.options[n].label);
+            return this.answerQuestion(tool.id, index, { kind: 'multi', indexes: [...selected] }, `☑️ ${labels.join(', ')} ${who}`);
+          }
+
+          // Toggle the option and show the selection so far
+          const at = selected.indexOf(i);
+          if (at === -1) selected.push(i);
+          else selected.splice(at, 1);
+
+          this.updateChoice(
+            choiceId,
+            formatQuestion(question, index, questions.length, selected),
+            buttons.map((button, n) => (selected.includes(n) ? { ...button, label: `☑️ ${button.label}` } : button))
+          );
+          return null;
+        }
+      );
+      pending.choiceIds[index] = choiceId;
+    });
+  }
+
+  // Record one answer; once every question is answered, type them all into the terminal
+  private answerQuestion(toolUseId: string, index: number, answer: QuestionAnswer, outcome: string): string | null {
+    const pending = this.questions.get(toolUseId);
+    if (!pending) {
+      return 'This question has already been answered.';
+    }
+
+    pending.answers[index] = answer;
+    this.resolveChoice(pending.choiceIds[index], outcome);
+
+    if (!pending.questions.every((_, i) => pending.answers[i])) {
+      return null;
+    }
+
+    this.questions.delete(toolUseId);
+    const keys = answerKeys(pending.questions, pending.answers as QuestionAnswer[]);
+    return this.sessionManager.sendKeySequence(pending.sessionId, keys) ? null : SEND_FAILED;
+  }
+
+  // Close any questions of a call that are still open
+  private settleQuestions(toolUseId: string, outcome: string): void {
+    const pending = this.questions.get(toolUseId);
+    if (!pending) return;
+    this.questions.delete(toolUseId);
+
+    for (const choiceId of pending.choiceIds) {
+      this.resolveChoice(choiceId, outcome);
+    }
+  }
+
+  /**
+   * Post a plan from ExitPlanMode for review. The buttons answer the terminal's
+   * "Would you like to proceed?" dialog: Approve picks its "manually approve
+   * edits" option by number, so approving from chat never switches the session
+   * to auto-accepting edits or bypassing permissions. Escape turns the plan
+   * down and leaves Claude in plan mode.
+   */
+  private reviewPlan(sessionId: string, tool: ToolCallInfo): void {
+    const buttons: ChoiceButton[] = [
+      { label: 'Approve, review edits', style: 'primary' },
+      { label: 'Keep planning' },
+      { label: 'Reject with feedback…', style: 'danger' },
+    ];
+
+    const select: ChoiceHandler = (choiceId, index, who) => {
+      switch (index) {
+        case 0: {
+          const options = parsePlanApprovalOptions(this.sessionManager.getTerminalOutput(sessionId));
+          const manual = options.find((o) => /manually approve/i.test(o.label));
+          if (!manual) {
+            return "⚠️ Couldn't find the plan's \"manually approve edits\" option in the terminal - answer it there.";
+          }
+          if (!this.sessionManager.sendKeys(sessionId, manual.key)) return SEND_FAILED;
+          this.resolveChoice(choiceId, `✅ Approved ${who} - edits need approval`);
+          return null;
+        }
+
+        case 1:
+          if (!this.sessionManager.sendKeys(sessionId, '\x1b')) return SEND_FAILED;
+          this.resolveChoice(choiceId, `📋 Kept planning ${who}`);
+          return null;
+
+        default:
+          this.textReplies.set(sessionId, {
+            choiceId,
+            handle: (text, adapter) => {
+              // The feedback is posted back from the transcript - except to this chat
+              this.pendingEchoes.set(text.trim(), adapter);
+
+              // Give the prompt a moment to come back after Escape before typing
+              if (!this.sessionManager.sendKeySequence(sessionId, ['\x1b', text, '\r'], 500)) {
+                this.pendingEchoes.delete(text.trim());
+                return SEND_FAILED;
+              }
+              this.resolveChoice(choiceId, `❌ Rejected ${who}: "${text.trim()}"`);
+              return null;
+            },
+          });
+          return '✏️ Send your feedback on the plan as the next message for this session.';
+      }
+    };
+
+    const plan: string = tool.input.plan;
+    this.postChoice(sessionId, `plan:${tool.id}`, formatPlanReview(plan), buttons, select, {
+      text: plan,
+      threadName: 'Plan',
+    });
+  }
+
+  /**
+   * Post a question with one button per option to every adapter. Long `details`
+   * go in a reply (a thread where the platform has them) so they stay folded away.
+   * Returns the choice ID.
+   */
+  private postChoice(
+    sessionId: string,
+    source: string,
+    text: string,
+    buttons: ChoiceButton[],
+    select: ChoiceHandler,
+    details?: { text: string; threadName: string }
+  ): string {
+    const choiceId = String(this.nextChoiceId++);
+    const choice: PendingChoice = { sessionId, source, text, buttons, select, messages: new Map() };
+    this.choices.set(choiceId, choice);
+
+    const actions = this.choiceActions(choiceId, buttons);
+    this.deliver(sessionId, async (adapter) => {
+      await this.endStream(adapter, sessionId);
+      const ref = await adapter.send(sessionId, text, { actions });
+      if (!ref) return;
+      choice.messages.set(adapter, ref);
+
+      if (details) {
+        await adapter.send(sessionId, details.text, { replyTo: ref, threadName: details.threadName });
+      }
+    });
+    return choiceId;
+  }
+
+  private choiceActions(choiceId: string, buttons: ChoiceButton[]): ChatAction[] {
+    return buttons.map((button, i) => ({
+      id: `afk:${choiceId}:${i}`,
+      label: button.label,
+      style: button.style,
+    }));
+  }
+
+  // Change the text and buttons of a question that is still open
+  private updateChoice(choiceId: string, text: string, buttons: ChoiceButton[]): void {
+    const choice = this.choices.get(choiceId);
+    if (!choice) return;
+    choice.text = text;
+
+    const actions = this.choiceActions(choiceId, buttons);
+    this.deliver(choice.sessionId, async (adapter) => {
+      const ref = choice.messages.get(adapter);
+      if (ref) {
+        await adapter.edit(ref, text, actions);
+      }
+    });
+  }
+
+  private findChoice(sessionId: string, source: string): string | undefined {
+    for (const [choiceId, choice] of this.choices) {
+      if (choice.sessionId === sessionId && choice.source === source) {
+        return choiceId;
+      }
+    }
+    return undefined;
+  }
+
+  // Mark a question answered everywhere: show the outcome and remove the buttons
+  private resolveChoice(choiceId: string, outcome: string): void {
+    const choice = this.choices.get(choiceId);
+    if (!choice) return;
+    this.choices.delete(choiceId);
+
+    if (this.textReplies.get(choice.sessionId)?.choiceId === choiceId) {
+      this.textReplies.delete(choice.sessionId);
+    }
+
+    this.deliver(choice.sessionId, async (adapter) => {
+      const ref = choice.messages.get(adapter);
+      if (ref) {
+        await adapter.edit(ref, `${choice.text}\n\n${outcome}`);
+      }
+    });
+  }
+
+  /**
+   * Alert each adapter's user once its delay has passed, unless the session
+   * carries on first or it's their quiet hours. A more specific alert
+   * (permission, error) replaces a pending "waiting for you".
+   */
+  private scheduleNotification(sessionId: string, reason: NotifyReason, text: string): void {
+    const name = this.sessionManager.getSession(sessionId)?.name ?? 'Session';
+    const message = `${text} - **${name}**`;
+
+    for (const adapter of this.adapters) {
+      const pending = this.notifications.get(adapter)!;
+      const existing = pending.get(sessionId);
+      if (existing) {
+        if (reason === 'idle') continue;
+        clearTimeout(existing.timer);
+      }
+
+      const timer = setTimeout(() => {
+        pending.delete(sessionId);
+        if (isQuietTime(adapter.notifications)) {
+          console.log(`[${adapter.name}] Quiet hours - not alerting for session ${sessionId} (${reason})`);
+          return;
+        }
+        this.deliverTo(adapter, sessionId, () => adapter.notify(sessionId, message));
+      }, adapter.notifications.delayMs);
+
+      pending.set(sessionId, { reason, timer });
+    }
+  }
+
+  private cancelNotifications(sessionId: string, reasons: NotifyReason[]): void {
+    for (const pending of this.notifications.values()) {
+      const existing = pending.get(sessionId);
+      if (existing && reasons.includes(existing.reason)) {
+        clearTimeout(existing.timer);
+        pending.delete(sessionId);
+      }
+    }
+  }
+
+  // Run `fn` for every adapter, after anything already queued for that adapter and session
+  private deliver(sessionId: string, fn: (adapter: ChatAdapter) => Promise<void>): void {
+    for (const adapter of this.adapters) {
+      this.deliverTo(adapter, sessionId, () => fn(adapter));
+    }
+  }
+
+  private deliverTo(adapter: ChatAdapter, sessionId: string, fn: () => Promise<void>): void {
+    const chains = this.deliveries.get(adapter)!;
+    const previous = chains.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(fn).catch((err) => {
+      console.error(`[${adapter.name}] Failed to deliver update for session ${sessionId}:`, err);
+    });
+    chains.set(sessionId, next);
+  }
+
+  /**
+   * Upload the files the adapter takes and the sandbox allows (from the
+   * session's directory or the adapter's extra roots), images as prepared by
+   * `prepare` and together as an album when there are several, and list the
+   * ones over its size cap
+   */
+  private async uploadArtifacts(
+    adapter: ChatAdapter,
+    sessionId: string,
+    artifacts: ExtractedArtifact[],
+    cwd: string | undefined,
+    prepare: (artifact: ExtractedArtifact) => Promise<string>
+  ): Promise<void> {
+    const { extensions, maxBytes, roots } = adapter.artifacts;
+    const sandboxRoots = cwd ? [cwd, ...roots] : roots;
+
+    const allowed = artifacts.filter((a) => {
+      if (!extensions.includes(a.extension)) return false;
+      const refusal = uploadRefusal(a.resolvedPath, sandboxRoots);
+      if (refusal) auditUpload(adapter.name, sessionId, a.resolvedPath, refusal);
+      return !refusal;
+    });
+    if (allowed.length === 0) return;
+
+    await this.endStream(adapter, sessionId); // So the reply goes on below the files
+
+    // The size cap applies to what is uploaded, so a scaled-down image can fit under it
+    const ready: { artifact: ExtractedArtifact; filePath: string; caption: string }[] = [];
+    const tooLarge: { path: string; size: number }[] = [];
+    for (const artifact of allowed) {
+      const filePath = await prepare(artifact);
+      const size = filePath === artifact.resolvedPath ? artifact.size : (await stat(filePath)).size;
+      if (size > maxBytes) {
+        auditUpload(adapter.name, sessionId, artifact.resolvedPath, `larger than ${maxBytes} bytes`);
+        tooLarge.push({ path: artifact.originalPath, size });
+      } else {
+        ready.push({ artifact, filePath, caption: `📎 ${artifact.originalPath}` });
+      }
+    }
+
+    const images = ready.filter((file) => ALBUM_EXTENSIONS.has(extname(file.filePath).toLowerCase()));
+    const album = images.length > 1 ? images : [];
+    if (album.length > 0) {
+      try {
+        await adapter.uploadAlbum(sessionId, album);
+        for (const file of album) auditUpload(adapter.name, sessionId, file.artifact.resolvedPath, null);
+      } catch (err) {
+        console.error(`[${adapter.name}] Failed to upload images:`, err);
+      }
+    }
+
+    for (const file of ready) {
+      if (album.includes(file)) continue;
+      try {
+        await adapter.upload(sessionId, file.filePath, file.caption);
+        auditUpload(adapter.name, sessionId, file.artifact.resolvedPath, null);
+      } catch (err) {
+        console.error(`[${adapter.name}] Failed to upload file:`, err);
+      }
+    }
+
+    if (tooLarge.length > 0) {
+      await adapter.send(sessionId, formatSkippedArtifacts(tooLarge, maxBytes));
+    }
+  }
+
+  /**
+   * Post the placeholder a streamed reply is edited into. Like the rest of the
+   * stream functions, only called from the adapter's delivery chain.
+   */
+  private async startStream(adapter: ChatAdapter, sessionId: string): Promise<void> {
+    const streams = this.streams.get(adapter)!;
+    if (streams.has(sessionId)) return;
+
+    const ref = await adapter.send(sessionId, STREAM_PLACEHOLDER, { author: 'assistant' });
+    if (ref) {
+      streams.set(sessionId, { ref, text: '', lastEdit: Date.now(), timer: null });
+    }
+  }
+
+  /**
+   * Add a block of Claude's text to the reply being streamed, or start a new
+   * streamed message with it if there is none (or the current one is full)
+   */
+  private async appendToStream(adapter: ChatAdapter, sessionId: string, content: string): Promise<void> {
+    const streams = this.streams.get(adapter)!;
+    let stream = streams.get(sessionId);
+
+    const text = stream?.text ? `${stream.text}\n\n${content}` : content;
+    if (stream && text.length > STREAM_MAX_LENGTH) {
+      await this.endStream(adapter, sessionId);
+      stream = undefined;
+    }
+
+    if (!stream) {
+      // Too long to stream - posted whole, in as many messages as it takes
+      if (content.length > STREAM_MAX_LENGTH) {
+        await adapter.send(sessionId, content, { author: 'assistant' });
+        return;
+      }
+      const ref = await adapter.send(sessionId, withCursor(content), { author: 'assistant' });
+      if (ref) {
+        streams.set(sessionId, { ref, text: content, lastEdit: Date.now(), timer: null });
+      }
+      return;
+    }
+
+    stream.text = text;
+    this.scheduleStreamEdit(adapter, sessionId, stream);
+  }
+
+  // Edit a streamed reply once the adapter's edit interval allows, taking in everything added by then
+  private scheduleStreamEdit(adapter: ChatAdapter, sessionId: string, stream: StreamedReply): void {
+    if (stream.timer) return;
+
+    const wait = Math.max(0, stream.lastEdit + adapter.editIntervalMs - Date.now());
+    stream.timer = setTimeout(() => {
+      this.deliverTo(adapter, sessionId, async () => {
+        // Until this edit is under way, later text just joins it
+        stream.timer = null;
+        if (this.streams.get(adapter)!.get(sessionId) !== stream) return; // Already finished
+        stream.lastEdit = Date.now();
+        await adapter.edit(stream.ref, withCursor(stream.text), undefined, 'assistant');
+      });
+    }, wait);
+  }
+
+  /**
+   * Finish the reply being streamed: its final text without the cursor, or
+   * gone if nothing was written into the placeholder. Anything posted to the
+   * session after a streamed reply ends it first, so the chat stays in order.
+   */
+  private async endStream(adapter: ChatAdapter, sessionId: string): Promise<void> {
+    const streams = this.streams.get(adapter)!;
+    const stream = streams.get(sessionId);
+    if (!stream) return;
+
+    streams.delete(sessionId);
+    if (stream.timer) {
+      clearTimeout(stream.timer);
+    }
+
+    if (stream.text) {
+      await adapter.edit(stream.ref, stream.text, undefined, 'assistant');
+    } else {
+      await adapter.remove(stream.ref).catch((err) => {
+        console.error(`[${adapter.name}] Failed to remove reply placeholder:`, err.message);
+      });
+    }
+  }
+
+  /**
+   * Keep a Bash call's message up to date while the command runs: a spinner,
+   * the time so far and the end of its output from the terminal
+   */
+  private startLiveCommand(sessionId: string, tool: ToolCallInfo): void {
+    const live: LiveCommand = {
+      sessionId,
+      tool,
+      startedAt: Date.now(),
+      frame: 0,
+      timer: setInterval(() => this.updateLiveCommand(live), LIVE_TICK_MS),
+      messages: new Map(),
+      lastEdits: new Map(),
+      editing: new Set(),
+    };
+    this.liveCommands.set(tool.id, live);
+  }
+
+  private updateLiveCommand(live: LiveCommand): void {
+    const now = Date.now();
+    const elapsed = now - live.startedAt;
+    if (elapsed < LIVE_DELAY_MS) return;
+    if (elapsed > LIVE_MAX_MS) {
+      clearInterval(live.timer);
+      return;
+    }
+
+    const session = this.sessionManager.getSession(live.sessionId);
+    if (!session) return;
+
+    const output = commandOutputTail(this.sessionManager.getTerminalOutput(live.sessionId));
+    // Idle with the command unfinished means it's waiting for permission
+    const text = formatRunningCommand(live.tool, elapsed, output, live.frame++, session.status === 'idle');
+
+    for (const [adapter, ref] of live.messages) {
+      if (live.editing.has(adapter)) continue;
+      if (now - (live.lastEdits.get(adapter) ?? 0) < adapter.editIntervalMs) continue;
+
+      live.lastEdits.set(adapter, now);
+      live.editing.add(adapter);
+      this.deliverTo(adapter, live.sessionId, async () => {
+        try {
+          // Finished while waiting its turn - the final status is already queued
+          if (this.liveCommands.get(live.tool.id) !== live) return;
+          await adapter.edit(ref, text);
+        } finally {
+          live.editing.delete(adapter);
+        }
+      });
+    }
+  }
+
+  private finishLiveCommand(result: ToolResultInfo): void {
+    const live = this.liveCommands.get(result.toolUseId)!;
+    this.liveCommands.delete(result.toolUseId);
+    clearInterval(live.timer);
+
+    const text = formatFinishedCommand(live.tool, result, Date.now() - live.startedAt);
+    this.deliver(live.sessionId, async (adapter) => {
+      const ref = live.messages.get(adapter);
+      if (ref) {
+        await adapter.edit(ref, text);
+      }
+    });
+  }
+
+  /**
+   * Post a Task call as the start of a thread that the sub-agent's messages
+   * and final result go into. Shown even when tool calls are hidden, since
+   * it's Claude's work rather than tool noise.
+   */
+  private startSubagent(sessionId: string, tool: ToolCallInfo): void {
+    const text = formatSubagentStart(tool);
+    const threadName = String(tool.input.description || 'Sub-agent').slice(0, 100);
+    this.subagents.set(tool.id, { sessionId, text, threadName });
+
+    this.deliver(sessionId, async (adapter) => {
+      await this.endStream(adapter, sessionId);
+      const ref = await adapter.send(sessionId, text);
+      if (ref) {
+        this.toolCallMessages.get(adapter)?.set(tool.id, ref);
+      }
+    });
+  }
+
+  private finishSubagent(sessionId: string, result: ToolResultInfo): void {
+    const subagent = this.subagents.get(result.toolUseId)!;
+    this.subagents.delete(result.toolUseId);
+
+    const text = formatSubagentResult(result);
+    const outcome = result.isError ? '❌ Failed' : '✅ Done';
+    this.deliver(sessionId, async (adapter) => {
+      const calls = this.toolCallMessages.get(adapter);
+      const parent = calls?.get(result.toolUseId);
+      if (!parent) return;
+
+      calls!.delete(result.toolUseId);
+      await adapter.send(sessionId, text, { replyTo: parent, threadName: subagent.threadName });
+      await adapter.edit(parent, `${subagent.text}\n${outcome}`);
+    });
+  }
+
+  private forgetSession(sessionId: string): void {
+    for (const [choiceId, choice] of this.choices) {
+      if (choice.sessionId === sessionId) {
+        this.choices.delete(choiceId);
+      }
+    }
+    for (const [toolUseId, pending] of this.questions) {
+      if (pending.sessionId === sessionId) {
+        this.questions.delete(toolUseId);
+      }
+    }
+    this.textReplies.delete(sessionId);
+    this.todoLists.delete(sessionId);
+    for (const [toolUseId, live] of this.liveCommands) {
+      if (live.sessionId === sessionId) {
+        clearInterval(live.timer);
+        this.liveCommands.delete(toolUseId);
+      }
+    }
+    for (const [toolUseId, subagent] of this.subagents) {
+      if (subagent.sessionId === sessionId) {
+        this.subagents.delete(toolUseId);
+      }
+    }
+
+    for (const adapter of this.adapters) {
+      const chains = this.deliveries.get(adapter)!;
+      const calls = this.toolCallMessages.get(adapter)!;
+      const tail = chains.get(sessionId) ?? Promise.resolve();
+
+      this.verbosity.get(adapter)!.delete(sessionId);
+
+      // Clean up once everything queued for the session has been delivered
+      tail.then(() => {
+        if (chains.get(sessionId) === tail) {
+          chains.delete(sessionId);
+        }
+        this.todoMessages.get(adapter)!.delete(sessionId);
+        this.streams.get(adapter)!.delete(sessionId);
+        for (const [toolUseId, ref] of calls) {
+          if (ref.sessionId === sessionId) {
+            calls.delete(toolUseId);
+          }
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { TOOL_VERBOSITIES } from './tool-calls.js';
+
+/**
+ * Commands every platform offers for a session. Adapters register these with
+ * their platform (Slack slash commands, Discord application commands,
+ * Telegram bot commands) and pass invocations to `ChatRouter.runCommand`.
+ */
+export interface SessionCommand {
+  name: string;
+  description: string;
+  /** Extra names accepted on platforms with free-form commands (Telegram) */
+  aliases?: string[];
+  /** Single free-text argument */
+  option?: {
+    name: string;
+    description: string;
+    optional?: boolean;
+    choices?: string[]; // Offered as a pick list where the platform supports it (Discord)
+  };
+  /** Shown when the argument is required but missing */
+  usage?: string;
+  /** Terminal input to send, or null when the argument is missing. Without it, the router handles the command itself */
+  input?: (arg: string) => string | null;
+  /** Confirmation shown once the input is sent */
+  reply?: (arg: string) => string;
+}
+
+export const SESSION_COMMANDS: SessionCommand[] = [
+  {
+    name: 'background',
+    description: 'Send Claude to background mode (Ctrl+B)',
+    aliases: ['bg'],
+    input: () => '\x02', // Ctrl+B (ASCII 2)
+    reply: () => '⬇️ Sent background command (Ctrl+B)',
+  },
+  {
+    name: 'interrupt',
+    description: 'Interrupt Claude (Escape)',
+    aliases: ['stop'],
+    input: () => '\x1b', // Escape (ASCII 27)
+    reply: () => '🛑 Sent interrupt (Escape)',
+  },
+  {
+    name: 'mode',
+    description: 'Toggle Claude mode (Shift+Tab)',
+    input: () => '\x1b[Z', // Shift+Tab (ESC [ Z)
+    reply: () => '🔄 Sent mode toggle (Shift+Tab)',
+  },
+  {
+    name: 'compact',
+    description: 'Compact the conversation (/compact)',
+    input: () => '/compact\n',
+    reply: () => '🗜️ Sent /compact',
+  },
+  {
+    name: 'model',
+    description: 'Switch Claude model',
+    option: {
+      name: 'name',
+      description: 'Model name (opus, sonnet, haiku)',
+    },
+    usage: 'Usage: `/model <opus|sonnet|haiku>`',
+    input: (arg) => (arg ? `/model ${arg}\n` : null),
+    reply: (arg) => `🧠 Sent /model ${arg}`,
+  },
+  {
+    name: 'verbose',
+    description: 'Show tool calls in this chat: off, summary or full',
+    option: {
+      name: 'level',
+      description: 'off, summary or full (leave out to see the current level)',
+      optional: true,
+      choices: TOOL_VERBOSITIES,
+    },
+  },
+];
+
+export function findSessionCommand(name: string): SessionCommand | undefined {
+  const key = name.toLowerCase().replace(/^\//, '');
+  return SESSION_COMMANDS.find((c) => c.name === key || c.aliases?.includes(key));
+}
@@ -0,0 +1,65 @@
+/**
+ * When a chat platform may alert its user (Slack @mention, Discord ping,
+ * Telegram sound). Only "Claude is waiting for you" moments are loud -
+ * everything else is posted silently.
+ */
+
+export type NotifyReason = 'idle' | 'permission' | 'error';
+
+export interface QuietHours {
+  start: number; // Minutes after midnight, local time
+  end: number;
+}
+
+export interface NotificationPolicy {
+  quietHours?: QuietHours;
+  delayMs: number; // Wait this long before alerting, in case the session carries on by itself
+}
+
+export const DEFAULT_NOTIFY_DELAY_MS = 10_000;
+
+const TIME_RANGE_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+/**
+ * Build a policy from config values, e.g. quiet hours "22:00-07:00" and a
+ * delay of "30" seconds. Invalid values are reported and ignored.
+ */
+export function parseNotificationPolicy(
+  platform: string,
+  quietHours: string | undefined,
+  delaySeconds: string | undefined
+): NotificationPolicy {
+  const policy: NotificationPolicy = { delayMs: DEFAULT_NOTIFY_DELAY_MS };
+
+  if (quietHours) {
+    const match = quietHours.trim().match(TIME_RANGE_PATTERN);
+    const [startHour, startMinute, endHour, endMinute] = match ? match.slice(1).map(Number) : [];
+    if (match && startHour < 24 && endHour < 24 && startMinute < 60 && endMinute < 60) {
+      policy.quietHours = { start: startHour * 60 + startMinute, end: endHour * 60 + endMinute };
+    } else {
+      console.warn(`[${platform}] Ignoring invalid quiet hours "${quietHours}" (expected e.g. 22:00-07:00)`);
+    }
+  }
+
+  if (delaySeconds) {
+    const seconds = Number(delaySeconds);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      policy.delayMs = seconds * 1000;
+    } else {
+      console.warn(`[${platform}] Ignoring invalid notification delay "${delaySeconds}" (expected seconds)`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Whether `now` falls in the policy's quiet hours (which may span midnight)
+ */
+export function isQuietTime(policy: NotificationPolicy, now = new Date()): boolean {
+  if (!policy.quietHours) return false;
+
+  const { start, end } = policy.quietHours;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
@@ -0,0 +1,69 @@
+/**
+ * How much of Claude's tool use a chat platform shows: nothing, a one-line
+ * summary per call, or the call with its result threaded under it. Tools can
+ * be listed to always show (e.g. Bash, Edit) or never show (e.g. Read, Grep).
+ */
+
+export type ToolVerbosity = 'off' | 'summary' | 'full';
+
+export const TOOL_VERBOSITIES: ToolVerbosity[] = ['off', 'summary', 'full'];
+
+export interface ToolCallPolicy {
+  verbosity: ToolVerbosity;
+  include: string[]; // Tool names shown even when verbosity is off (lowercase)
+  exclude: string[]; // Tool names never shown (lowercase)
+}
+
+export function isToolVerbosity(value: string): value is ToolVerbosity {
+  return (TOOL_VERBOSITIES as string[]).includes(value);
+}
+
+function parseToolList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Build a policy from config values, e.g. verbosity "summary", include
+ * "Bash,Edit" and exclude "Read,Grep,Glob". An invalid verbosity is reported
+ * and the platform's default used instead.
+ */
+export function parseToolCallPolicy(
+  platform: string,
+  verbosity: string | undefined,
+  include: string | undefined,
+  exclude: string | undefined,
+  fallback: ToolVerbosity
+): ToolCallPolicy {
+  const policy: ToolCallPolicy = {
+    verbosity: fallback,
+    include: parseToolList(include),
+    exclude: parseToolList(exclude),
+  };
+
+  if (verbosity) {
+    const value = verbosity.trim().toLowerCase();
+    if (isToolVerbosity(value)) {
+      policy.verbosity = value;
+    } else {
+      console.warn(`[${platform}] Ignoring invalid tool call verbosity "${verbosity}" (expected off, summary or full)`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * How much to show of one call to `toolName`, given the verbosity in effect
+ * for the session. Excluded tools are never shown; included tools are shown
+ * (at least as a summary) even when verbosity is off.
+ */
+export function toolVerbosity(policy: ToolCallPolicy, toolName: string, verbosity = policy.verbosity): ToolVerbosity {
+  const name = toolName.toLowerCase();
+  if (policy.exclude.includes(name)) return 'off';
+  if (policy.include.includes(name) && verbosity === 'off') return 'summary';
+  return verbosity;
+}
@@ -1,5 +1,6 @@
 import type { Client, TextChannel, CategoryChannel, Guild } from 'discord.js';
 import { ChannelType, PermissionFlagsBits } from 'discord.js';
+import { JsonStore } from '../utils/json-store.js';
 
 export interface ChannelMapping {
   sessionId: string;
@@ -27,6 +28,7 @@ function sanitizeChannelName(name: string): string {
 export class ChannelManager {
   private channels = new Map<string, ChannelMapping>();
   private channelToSession = new Map<string, string>();
+  private store = new JsonStore<ChannelMapping[]>('discord-channels.json');
   private client: Client;
   private userId: string;
   private guild: Guild | null = null;
@@ -35,6 +37,12 @@ export class ChannelManager {
   constructor(client: Client, userId: string) {
     this.client = client;
     this.userId = userId;
+
+    // Reattach to channels of sessions that were running before a restart
+    for (const mapping of this.store.load([])) {
+      this.channels.set(mapping.sessionId, { ...mapping, createdAt: new Date(mapping.createdAt) });
+      this.channelToSession.set(mapping.channelId, mapping.sessionId);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -70,16 +78,16 @@ export class ChannelManager {
     sessionName: string,
     cwd: string
   ): Promise<ChannelMapping | null> {
-    if (!this.guild || !this.category) {
-      console.error('[ChannelManager] Not initialized');
-      return null;
-    }
-
     // Check if channel already exists for this session
     if (this.channels.has(sessionId)) {
       return this.channels.get(sessionId)!;
     }
 
+    if (!this.guild || !this.category) {
+      console.error('[ChannelManager] Not initialized');
+      return null;
+    }
+
     // Extract just the folder name from the path
     const folderName = cwd.split('/').filter(Boolean).pop() || 'session';
     const baseName = `afk-${sanitizeChannelName(folderName)}`;
@@ -131,6 +139,7 @@ export class ChannelManager {
     };
 
     this.channels.set(sessionId, mapping);
+    this.persist();
     this.channelToSession.set(channel.id, sessionId);
 
     console.log(`[ChannelManager] Created channel #${channelName} for session ${sessionId}`);
@@ -175,6 +184,7 @@ export class ChannelManager {
     const mapping = this.channels.get(sessionId);
     if (mapping) {
       mapping.status = status;
+      this.persist();
     }
   }
 
@@ -182,10 +192,16 @@ export class ChannelManager {
     const mapping = this.channels.get(sessionId);
     if (mapping) {
       mapping.sessionName = name;
+      this.persist();
     }
   }
 
   getAllActive(): ChannelMapping[] {
     return Array.from(this.channels.values()).filter((c) => c.status !== 'ended');
   }
+
+  // Save the channels of sessions that haven't ended
+  private persist(): void {
+    this.store.save(this.getAllActive());
+  }
 }
@@ -1,11 +1,77 @@
-import { Client, GatewayIntentBits, Events, ChannelType, AttachmentBuilder, REST, Routes, SlashCommandBuilder } from 'discord.js';
+import {
+  Client,
+  GatewayIntentBits,
+  Events,
+  ChannelType,
+  AttachmentBuilder,
+  REST,
+  Routes,
+  SlashCommandBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageFlags,
+  type GuildMember,
+  type APIInteractionGuildMember,
+} from 'discord.js';
 import type { DiscordConfig } from './types.js';
-import { SessionManager, type SessionInfo, type ToolCallInfo, type ToolResultInfo } from '../slack/session-manager.js';
+import { SessionManager } from '../slack/session-manager.js';
 import { ChannelManager } from './channel-manager.js';
-import { markdownToSlack, chunkMessage, formatSessionStatus, formatTodos } from '../slack/message-formatter.js';
-import { extractImagePaths } from '../utils/image-extractor.js';
+import { chunkMessage, formatSessionStatus, sessionStatusIcon } from '../slack/message-formatter.js';
+import { ChatRouter } from '../core/chat-router.js';
+import { SESSION_COMMANDS, findSessionCommand } from '../core/commands.js';
+import type { ChatAction, ChatAdapter, MessageRef } from '../core/chat-adapter.js';
+import { ACCESS_DENIED_MESSAGE, checkAccess, type AccessPolicy } from '../core/access.js';
+import { DEFAULT_NOTIFY_DELAY_MS } from '../core/notifications.js';
+import { DEFAULT_ARTIFACT_EXTENSIONS } from '../core/artifacts.js';
+import type { InboundFile } from '../utils/attachments.js';
+
+// Discord's upload limit without boosts
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Most attachments one message can carry
+const MAX_FILES_PER_MESSAGE = 10;
+
+// Discord has a 2000 character limit per message (leave room for prefixes)
+const MAX_MESSAGE_LENGTH = 1900;
+
+// Discord allows two renames per channel every 10 minutes
+const STATUS_RENAME_INTERVAL_MS = 5 * 60 * 1000;
+
+// Member roles come as a cache or, for uncached guilds, as raw role IDs
+function getRoleIds(member: GuildMember | APIInteractionGuildMember | null): string[] {
+  if (!member) return [];
+  return Array.isArray(member.roles) ? member.roles : [...member.roles.cache.keys()];
+}
+
+// Discord allows up to 5 buttons per row
+function buildButtonRows(actions: ChatAction[]): ActionRowBuilder<ButtonBuilder>[] {
+  const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+  for (let i = 0; i < actions.length; i += 5) {
+    rows.push(
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        actions.slice(i, i + 5).map((action) =>
+          new ButtonBuilder()
+            .setCustomId(action.id)
+            .setLabel(action.label)
+            .setStyle(
+              action.style === 'primary'
+                ? ButtonStyle.Primary
+                : action.style === 'danger'
+                  ? ButtonStyle.Danger
+                  : ButtonStyle.Secondary
+            )
+        )
+      )
+    );
+  }
+  return rows;
+}
 
-export function createDiscordApp(config: DiscordConfig) {
+/**
+ * Pass a shared ChatRouter to run this bot alongside other platforms
+ * (see `afk-code serve`); by default the bot gets a router of its own.
+ */
+export function createDiscordApp(config: DiscordConfig, router = new ChatRouter(new SessionManager())) {
   const client = new Client({
     intents: [
       GatewayIntentBits.Guilds,
@@ -16,226 +82,213 @@ export function createDiscordApp(config: DiscordConfig) {
 
   const channelManager = new ChannelManager(client, config.userId);
 
-  // Track messages sent from Discord to avoid re-posting
-  const discordSentMessages = new Set<string>();
+  // Only these users (or members with these roles) may send input or commands to sessions
+  const access: AccessPolicy = {
+    userIds: [config.userId, ...(config.allowedUserIds ?? [])],
+    roleIds: config.allowedRoleIds ?? [],
+  };
+
+  // Fetch a channel or thread we can post to
+  async function fetchTextChannel(channelId: string) {
+    const channel = await client.channels.fetch(channelId);
+    if (channel?.type === ChannelType.GuildText || channel?.isThread()) {
+      return channel;
+    }
+    return null;
+  }
+
+  // Channel names start with the status icon; renames are spaced out, showing the latest status
+  const statusRenames = new Map<string, { lastRename: number; timer?: ReturnType<typeof setTimeout> }>();
+
+  function scheduleStatusRename(sessionId: string) {
+    let state = statusRenames.get(sessionId);
+    if (!state) {
+      state = { lastRename: 0 };
+      statusRenames.set(sessionId, state);
+    }
+    if (state.timer) return; // Already scheduled
 
-  // Track tool call messages for threading results
-  const toolCallMessages = new Map<string, string>(); // toolUseId -> message id
+    const wait = Math.max(0, state.lastRename + STATUS_RENAME_INTERVAL_MS - Date.now());
+    const current = state;
+    current.timer = setTimeout(async () => {
+      current.timer = undefined;
+      const channel = channelManager.getChannel(sessionId);
+      if (!channel || channel.status === 'ended') return;
 
-  // Create session manager with event handlers that post to Discord
-  const sessionManager = new SessionManager({
-    onSessionStart: async (session) => {
-      const channel = await channelManager.createChannel(session.id, session.name, session.cwd);
-      if (channel) {
+      const name = `${sessionStatusIcon(channel.status)}${channel.channelName}`;
+      try {
         const discordChannel = await client.channels.fetch(channel.channelId);
-        if (discordChannel?.type === ChannelType.GuildText) {
-          await discordChannel.send(
-            `${formatSessionStatus(session.status)} **Session started**\n\`${session.cwd}\``
-          );
+        if (discordChannel?.type === ChannelType.GuildText && discordChannel.name !== name) {
+          current.lastRename = Date.now();
+          await discordChannel.setName(name);
         }
+      } catch (err) {
+        console.error('[Discord] Failed to show status in channel name:', err);
       }
+    }, wait);
+  }
+
+  const adapter: ChatAdapter = {
+    name: 'Discord',
+    toolCalls: config.toolCalls ?? { verbosity: 'full', include: [], exclude: [] },
+    announceCompletedTodos: config.announceCompletedTodos ?? false,
+    streamReplies: config.streamReplies ?? false,
+    artifacts: config.artifacts ?? { extensions: DEFAULT_ARTIFACT_EXTENSIONS, maxBytes: MAX_UPLOAD_BYTES, roots: [] },
+    editIntervalMs: 2000, // Message edits are limited to 5 per 5 seconds per channel
+    notifications: config.notifications ?? { delayMs: DEFAULT_NOTIFY_DELAY_MS },
+
+    async openSession(session) {
+      await channelManager.createChannel(session.id, session.name, session.cwd);
     },
 
-    onSessionEnd: async (sessionId) => {
+    async closeSession(sessionId) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateStatus(sessionId, 'ended');
+      if (!channel) return;
 
-        const discordChannel = await client.channels.fetch(channel.channelId);
-        if (discordChannel?.type === ChannelType.GuildText) {
-          await discordChannel.send('🛑 **Session ended** - this channel will be archived');
-        }
+      channelManager.updateStatus(sessionId, 'ended');
+      clearTimeout(statusRenames.get(sessionId)?.timer);
+      statusRenames.delete(sessionId);
 
-        await channelManager.archiveChannel(sessionId);
-      }
+      const discordChannel = await fetchTextChannel(channel.channelId);
+      await discordChannel?.send({
+        content: '🛑 **Session ended** - this channel will be archived',
+        flags: MessageFlags.SuppressNotifications,
+      });
+
+      await channelManager.archiveChannel(sessionId);
     },
 
-    onSessionUpdate: async (sessionId, name) => {
+    async renameSession(sessionId, name) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateName(sessionId, name);
-        // Update channel topic
-        try {
-          const discordChannel = await client.channels.fetch(channel.channelId);
-          if (discordChannel?.type === ChannelType.GuildText) {
-            await discordChannel.setTopic(`Claude Code session: ${name}`);
-          }
-        } catch (err) {
-          console.error('[Discord] Failed to update channel topic:', err);
+      if (!channel) return;
+
+      channelManager.updateName(sessionId, name);
+      // Update channel topic
+      try {
+        const discordChannel = await client.channels.fetch(channel.channelId);
+        if (discordChannel?.type === ChannelType.GuildText) {
+          await discordChannel.setTopic(`Claude Code session: ${name}`);
         }
+      } catch (err) {
+        console.error('[Discord] Failed to update channel topic:', err);
       }
     },
 
-    onSessionStatus: async (sessionId, status) => {
+    async setStatus(sessionId, status) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateStatus(sessionId, status);
-      }
+      if (!channel || channel.status === status) return;
+
+      channelManager.updateStatus(sessionId, status);
+      scheduleStatusRename(sessionId);
     },
 
-    onMessage: async (sessionId, role, content) => {
+    async send(sessionId, markdown, options = {}) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        // Discord markdown is similar to Slack's mrkdwn but uses standard markdown
-        const formatted = content; // Discord uses standard markdown
-
-        if (role === 'user') {
-          // Skip messages that originated from Discord
-          const contentKey = content.trim();
-          if (discordSentMessages.has(contentKey)) {
-            discordSentMessages.delete(contentKey);
-            return;
-          }
-
-          // User message from terminal
-          const discordChannel = await client.channels.fetch(channel.channelId);
-          if (discordChannel?.type === ChannelType.GuildText) {
-            const chunks = chunkMessage(formatted);
-            for (const chunk of chunks) {
-              await discordChannel.send(`**User:** ${chunk}`);
-            }
-          }
-        } else {
-          // Claude's response
-          const discordChannel = await client.channels.fetch(channel.channelId);
-          if (discordChannel?.type === ChannelType.GuildText) {
-            const chunks = chunkMessage(formatted);
-            for (const chunk of chunks) {
-              await discordChannel.send(chunk);
-            }
-
-            // Extract and upload any images mentioned in the response
-            const session = sessionManager.getSession(sessionId);
-            const images = extractImagePaths(content, session?.cwd);
-            for (const image of images) {
-              try {
-                console.log(`[Discord] Uploading image: ${image.resolvedPath}`);
-                const attachment = new AttachmentBuilder(image.resolvedPath);
-                await discordChannel.send({
-                  content: `📎 ${image.originalPath}`,
-                  files: [attachment],
-                });
-              } catch (err) {
-                console.error('[Discord] Failed to upload image:', err);
-              }
-            }
-          }
-        }
+      if (!channel) return null;
+
+      let target = await fetchTextChannel(channel.channelId);
+      if (!target) return null;
+
+      // Replies go in a thread under the parent message (created on first reply)
+      if (options.replyTo && target.type === ChannelType.GuildText) {
+        const parentMessage = await target.messages.fetch(options.replyTo.messageId);
+        target =
+          parentMessage.thread ??
+          (await parentMessage.startThread({
+            name: options.threadName ?? 'Result',
+            autoArchiveDuration: 60,
+          }));
       }
-    },
 
-    onTodos: async (sessionId, todos) => {
-      const channel = channelManager.getChannel(sessionId);
-      if (channel && todos.length > 0) {
-        const todosText = formatTodos(todos);
-        try {
-          const discordChannel = await client.channels.fetch(channel.channelId);
-          if (discordChannel?.type === ChannelType.GuildText) {
-            await discordChannel.send(`**Tasks:**\n${todosText}`);
-          }
-        } catch (err) {
-          console.error('[Discord] Failed to post todos:', err);
-        }
+      // Discord uses standard markdown, so no conversion is needed
+      const prefix = options.author === 'user' ? `**User${options.origin ? ` (${options.origin})` : ''}:** ` : '';
+
+      let ref: MessageRef | null = null;
+      const chunks = chunkMessage(markdown, MAX_MESSAGE_LENGTH);
+      for (let i = 0; i < chunks.length; i++) {
+        const components = options.actions && i === chunks.length - 1 ? buildButtonRows(options.actions) : [];
+        const message = await target.send({
+          content: `${prefix}${chunks[i]}`,
+          components,
+          flags: MessageFlags.SuppressNotifications, // Only notify() pings
+        });
+        ref = { sessionId, channelId: target.id, messageId: message.id };
       }
+      return ref;
     },
 
-    onToolCall: async (sessionId, tool) => {
-      const channel = channelManager.getChannel(sessionId);
-      if (!channel) return;
+    async edit(ref, markdown, actions) {
+      const target = await fetchTextChannel(ref.channelId);
+      if (!target) return;
 
-      // Format tool call summary
-      let inputSummary = '';
-      if (tool.name === 'Bash' && tool.input.command) {
-        inputSummary = `\`${tool.input.command.slice(0, 100)}${tool.input.command.length > 100 ? '...' : ''}\``;
-      } else if (tool.name === 'Read' && tool.input.file_path) {
-        inputSummary = `\`${tool.input.file_path}\``;
-      } else if (tool.name === 'Edit' && tool.input.file_path) {
-        inputSummary = `\`${tool.input.file_path}\``;
-      } else if (tool.name === 'Write' && tool.input.file_path) {
-        inputSummary = `\`${tool.input.file_path}\``;
-      } else if (tool.name === 'Grep' && tool.input.pattern) {
-        inputSummary = `\`${tool.input.pattern}\``;
-      } else if (tool.name === 'Glob' && tool.input.pattern) {
-        inputSummary = `\`${tool.input.pattern}\``;
-      } else if (tool.name === 'Task' && tool.input.description) {
-        inputSummary = tool.input.description;
-      }
+      const message = await target.messages.fetch(ref.messageId);
+      await message.edit({
+        content: markdown.slice(0, MAX_MESSAGE_LENGTH),
+        components: actions ? buildButtonRows(actions) : [],
+      });
+    },
 
-      const text = inputSummary
-        ? `🔧 **${tool.name}**: ${inputSummary}`
-        : `🔧 **${tool.name}**`;
+    async remove(ref) {
+      const target = await fetchTextChannel(ref.channelId);
+      if (!target) return;
 
-      try {
-        const discordChannel = await client.channels.fetch(channel.channelId);
-        if (discordChannel?.type === ChannelType.GuildText) {
-          const message = await discordChannel.send(text);
-          // Store the message id for threading results
-          toolCallMessages.set(tool.id, message.id);
-        }
-      } catch (err) {
-        console.error('[Discord] Failed to post tool call:', err);
-      }
+      const message = await target.messages.fetch(ref.messageId);
+      await message.delete();
     },
 
-    onToolResult: async (sessionId, result) => {
+    async upload(sessionId, filePath, caption) {
       const channel = channelManager.getChannel(sessionId);
       if (!channel) return;
 
-      const parentMessageId = toolCallMessages.get(result.toolUseId);
-      if (!parentMessageId) return; // No parent message to reply to
+      const discordChannel = await fetchTextChannel(channel.channelId);
+      await discordChannel?.send({
+        content: caption,
+        files: [new AttachmentBuilder(filePath)],
+        flags: MessageFlags.SuppressNotifications,
+      });
+    },
+
+    async uploadAlbum(sessionId, files) {
+      const channel = channelManager.getChannel(sessionId);
+      if (!channel) return;
 
-      // Truncate long results
-      const maxLen = 1800; // Discord has 2000 char limit
-      let content = result.content;
-      if (content.length > maxLen) {
-        content = content.slice(0, maxLen) + '\n... (truncated)';
+      const discordChannel = await fetchTextChannel(channel.channelId);
+      if (!discordChannel) return;
+      for (let i = 0; i < files.length; i += MAX_FILES_PER_MESSAGE) {
+        const group = files.slice(i, i + MAX_FILES_PER_MESSAGE);
+        await discordChannel.send({
+          content: group.map((file) => file.caption).filter(Boolean).join('\n') || undefined,
+          files: group.map((file) => new AttachmentBuilder(file.filePath)),
+          flags: MessageFlags.SuppressNotifications,
+        });
       }
+    },
 
-      const prefix = result.isError ? '❌ Error:' : '✅ Result:';
-      const text = `${prefix}\n\`\`\`\n${content}\n\`\`\``;
-
-      try {
-        const discordChannel = await client.channels.fetch(channel.channelId);
-        if (discordChannel?.type === ChannelType.GuildText) {
-          // Fetch the parent message and create a thread
-          const parentMessage = await discordChannel.messages.fetch(parentMessageId);
-          if (parentMessage) {
-            // Create a thread if one doesn't exist, or use existing
-            let thread = parentMessage.thread;
-            if (!thread) {
-              thread = await parentMessage.startThread({
-                name: 'Result',
-                autoArchiveDuration: 60,
-              });
-            }
-            await thread.send(text);
-          }
+    async pin(ref) {
+      const target = await fetchTextChannel(ref.channelId);
+      const message = await target?.messages.fetch(ref.messageId);
+      await message?.pin();
+    },
 
-          // Clean up the mapping
-          toolCallMessages.delete(result.toolUseId);
-        }
-      } catch (err) {
-        console.error('[Discord] Failed to post tool result:', err);
-      }
+    async unpin(ref) {
+      const target = await fetchTextChannel(ref.channelId);
+      const message = await target?.messages.fetch(ref.messageId);
+      await message?.unpin();
     },
 
-    onPlanModeChange: async (sessionId, inPlanMode) => {
+    async notify(sessionId, markdown) {
       const channel = channelManager.getChannel(sessionId);
       if (!channel) return;
 
-      const emoji = inPlanMode ? '📋' : '🔨';
-      const status = inPlanMode ? 'Planning mode - Claude is designing a solution' : 'Execution mode - Claude is implementing';
-
-      try {
-        const discordChannel = await client.channels.fetch(channel.channelId);
-        if (discordChannel?.type === ChannelType.GuildText) {
-          await discordChannel.send(`${emoji} ${status}`);
-        }
-      } catch (err) {
-        console.error('[Discord] Failed to post plan mode change:', err);
-      }
+      const discordChannel = await fetchTextChannel(channel.channelId);
+      await discordChannel?.send({
+        content: `<@${config.userId}> ${markdown}`,
+        allowedMentions: { users: [config.userId] },
+      });
     },
-  });
+  };
+
+  router.addAdapter(adapter);
 
   // Handle messages in session channels (user sending input to Claude)
   client.on(Events.MessageCreate, async (message) => {
@@ -248,21 +301,24 @@ export function createDiscordApp(config: DiscordConfig) {
     const sessionId = channelManager.getSessionByChannel(message.channelId);
     if (!sessionId) return; // Not a session channel
 
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await message.reply('⚠️ This session has ended.');
+    const roleIds = getRoleIds(message.member);
+    if (!checkAccess('Discord', access, message.author.id, roleIds, `input to session ${sessionId}`)) {
+      await message.reply(ACCESS_DENIED_MESSAGE);
       return;
     }
 
-    console.log(`[Discord] Sending input to session ${sessionId}: ${message.content.slice(0, 50)}...`);
-
-    // Track this message so we don't re-post it
-    discordSentMessages.add(message.content.trim());
-
-    const sent = sessionManager.sendInput(sessionId, message.content);
-    if (!sent) {
-      discordSentMessages.delete(message.content.trim());
-      await message.reply('⚠️ Failed to send input - session not connected.');
+    const files: InboundFile[] = message.attachments.map((attachment) => ({
+      name: attachment.name,
+      url: attachment.url,
+      size: attachment.size,
+    }));
+
+    const warning =
+      files.length > 0
+        ? await router.handleInputWithFiles(adapter, sessionId, message.content, files)
+        : router.handleInput(adapter, sessionId, message.content);
+    if (warning) {
+      await message.reply(warning);
     }
   });
 
@@ -273,28 +329,25 @@ export function createDiscordApp(config: DiscordConfig) {
 
     // Register slash commands
     const commands = [
-      new SlashCommandBuilder()
-        .setName('background')
-        .setDescription('Send Claude to background mode (Ctrl+B)'),
-      new SlashCommandBuilder()
-        .setName('interrupt')
-        .setDescription('Interrupt Claude (Escape)'),
-      new SlashCommandBuilder()
-        .setName('mode')
-        .setDescription('Toggle Claude mode (Shift+Tab)'),
       new SlashCommandBuilder()
         .setName('sessions')
         .setDescription('List active Claude Code sessions'),
-      new SlashCommandBuilder()
-        .setName('compact')
-        .setDescription('Compact the conversation (/compact)'),
-      new SlashCommandBuilder()
-        .setName('model')
-        .setDescription('Switch Claude model')
-        .addStringOption(option =>
-          option.setName('name')
-            .setDescription('Model name (opus, sonnet, haiku)')
-            .setRequired(true)),
+      ...SESSION_COMMANDS.map((sessionCommand) => {
+        const builder = new SlashCommandBuilder()
+          .setName(sessionCommand.name)
+          .setDescription(sessionCommand.description);
+        if (sessionCommand.option) {
+          const { name, description, optional, choices } = sessionCommand.option;
+          builder.addStringOption((option) => {
+            option.setName(name).setDescription(description).setRequired(!optional);
+            if (choices) {
+              option.addChoices(...choices.map((choice) => ({ name: choice, value: choice })));
+            }
+            return option;
+          });
+        }
+        return builder;
+      }),
     ];
 
     try {
@@ -308,12 +361,37 @@ export function createDiscordApp(config: DiscordConfig) {
     }
   });
 
+  // Button clicks (permission prompts and other questions)
+  client.on(Events.InteractionCreate, async (interaction) => {
+    if (!interaction.isButton() || !interaction.customId.startsWith('afk:')) return;
+
+    const roleIds = getRoleIds(interaction.member);
+    if (!checkAccess('Discord', access, interaction.user.id, roleIds, `button ${interaction.customId}`)) {
+      await interaction.reply({ content: ACCESS_DENIED_MESSAGE, ephemeral: true });
+      return;
+    }
+
+    const warning = router.handleAction(adapter, interaction.customId, interaction.user.username);
+    if (warning) {
+      await interaction.reply({ content: warning, ephemeral: true });
+    } else {
+      // The router edits the message to show the outcome
+      await interaction.deferUpdate();
+    }
+  });
+
   // Handle slash commands
   client.on(Events.InteractionCreate, async (interaction) => {
     if (!interaction.isChatInputCommand()) return;
 
     const { commandName, channelId } = interaction;
 
+    const roleIds = getRoleIds(interaction.member);
+    if (!checkAccess('Discord', access, interaction.user.id, roleIds, `/${commandName} in channel ${channelId}`)) {
+      await interaction.reply({ content: ACCESS_DENIED_MESSAGE, ephemeral: true });
+      return;
+    }
+
     if (commandName === 'sessions') {
       const active = channelManager.getAllActive();
       if (active.length === 0) {
@@ -329,84 +407,15 @@ export function createDiscordApp(config: DiscordConfig) {
       return;
     }
 
-    if (commandName === 'background' || commandName === 'interrupt' || commandName === 'mode') {
+    const sessionCommand = findSessionCommand(commandName);
+    if (sessionCommand) {
+      const arg = sessionCommand.option
+        ? interaction.options.getString(sessionCommand.option.name) ?? ''
+        : '';
       const sessionId = channelManager.getSessionByChannel(channelId);
-      if (!sessionId) {
-        await interaction.reply('⚠️ This channel is not associated with an active session.');
-        return;
-      }
-
-      const channel = channelManager.getChannel(sessionId);
-      if (!channel || channel.status === 'ended') {
-        await interaction.reply('⚠️ This session has ended.');
-        return;
-      }
-
-      // Send the appropriate escape sequence
-      let key: string;
-      let message: string;
-      if (commandName === 'background') {
-        key = '\x02'; // Ctrl+B
-        message = '⬇️ Sent background command (Ctrl+B)';
-      } else if (commandName === 'interrupt') {
-        key = '\x1b'; // Escape
-        message = '🛑 Sent interrupt (Escape)';
-      } else {
-        key = '\x1b[Z'; // Shift+Tab
-        message = '🔄 Sent mode toggle (Shift+Tab)';
-      }
-
-      const sent = sessionManager.sendInput(sessionId, key);
-      if (sent) {
-        await interaction.reply(message);
-      } else {
-        await interaction.reply('⚠️ Failed to send command - session not connected.');
-      }
-    }
-
-    if (commandName === 'compact') {
-      const sessionId = channelManager.getSessionByChannel(channelId);
-      if (!sessionId) {
-        await interaction.reply('⚠️ This channel is not associated with an active session.');
-        return;
-      }
-
-      const channel = channelManager.getChannel(sessionId);
-      if (!channel || channel.status === 'ended') {
-        await interaction.reply('⚠️ This session has ended.');
-        return;
-      }
-
-      const sent = sessionManager.sendInput(sessionId, '/compact\n');
-      if (sent) {
-        await interaction.reply('🗜️ Sent /compact');
-      } else {
-        await interaction.reply('⚠️ Failed to send command - session not connected.');
-      }
-    }
-
-    if (commandName === 'model') {
-      const sessionId = channelManager.getSessionByChannel(channelId);
-      if (!sessionId) {
-        await interaction.reply('⚠️ This channel is not associated with an active session.');
-        return;
-      }
-
-      const channel = channelManager.getChannel(sessionId);
-      if (!channel || channel.status === 'ended') {
-        await interaction.reply('⚠️ This session has ended.');
-        return;
-      }
-
-      const modelArg = interaction.options.getString('name', true);
-      const sent = sessionManager.sendInput(sessionId, `/model ${modelArg}\n`);
-      if (sent) {
-        await interaction.reply(`🧠 Sent /model ${modelArg}`);
-      } else {
-        await interaction.reply('⚠️ Failed to send command - session not connected.');
-      }
+      await interaction.reply(router.runCommand(adapter, sessionId, sessionCommand.name, arg));
     }
   });
 
-  return { client, sessionManager, channelManager };
+  return { client, sessionManager: router.sessionManager, channelManager, adapter };
 }
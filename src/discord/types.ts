@@ -1,4 +1,15 @@
+import type { NotificationPolicy } from '../core/notifications.js';
+import type { ToolCallPolicy } from '../core/tool-calls.js';
+import type { ArtifactPolicy } from '../core/artifacts.js';
+
 export interface DiscordConfig {
   botToken: string;
-  userId: string; // User to notify
+  userId: string; // User to notify (always allowed to send input)
+  allowedUserIds?: string[]; // Other users allowed to send input and commands
+  allowedRoleIds?: string[]; // Members with any of these roles are allowed too
+  notifications?: NotificationPolicy; // When to ping userId (quiet hours, delay)
+  toolCalls?: ToolCallPolicy; // Which tool calls to post (default: full)
+  announceCompletedTodos?: boolean; // Post a line whenever a todo item is completed
+  streamReplies?: boolean; // Edit Claude's replies into place as they are written
+  artifacts?: ArtifactPolicy; // Which files Claude mentions are uploaded (default: images, PDFs, reports, logs)
 }
@@ -1,4 +1,5 @@
 import type { WebClient } from '@slack/web-api';
+import { JsonStore } from '../utils/json-store.js';
 
 export interface ChannelMapping {
   sessionId: string;
@@ -26,12 +27,19 @@ function sanitizeChannelName(name: string): string {
 export class ChannelManager {
   private channels = new Map<string, ChannelMapping>();
   private channelToSession = new Map<string, string>();
+  private store = new JsonStore<ChannelMapping[]>('slack-channels.json');
   private client: WebClient;
   private userId: string;
 
   constructor(client: WebClient, userId: string) {
     this.client = client;
     this.userId = userId;
+
+    // Reattach to channels of sessions that were running before a restart
+    for (const mapping of this.store.load([])) {
+      this.channels.set(mapping.sessionId, { ...mapping, createdAt: new Date(mapping.createdAt) });
+      this.channelToSession.set(mapping.channelId, mapping.sessionId);
+    }
   }
 
   async createChannel(
@@ -90,6 +98,7 @@ export class ChannelManager {
     };
 
     this.channels.set(sessionId, mapping);
+    this.persist();
     this.channelToSession.set(result.channel.id, sessionId);
 
     // Set channel topic
@@ -159,6 +168,7 @@ export class ChannelManager {
     const mapping = this.channels.get(sessionId);
     if (mapping) {
       mapping.status = status;
+      this.persist();
     }
   }
 
@@ -166,10 +176,16 @@ export class ChannelManager {
     const mapping = this.channels.get(sessionId);
     if (mapping) {
       mapping.sessionName = name;
+      this.persist();
     }
   }
 
   getAllActive(): ChannelMapping[] {
     return Array.from(this.channels.values()).filter((c) => c.status !== 'ended');
   }
+
+  // Save the channels of sessions that haven't ended
+  private persist(): void {
+    this.store.save(this.getAllActive());
+  }
 }
@@ -1,5 +1,9 @@
 import { createSlackApp } from './slack-app.js';
 import type { SlackConfig } from './types.js';
+import { parseIdList } from '../core/access.js';
+import { parseNotificationPolicy } from '../core/notifications.js';
+import { parseToolCallPolicy } from '../core/tool-calls.js';
+import { parseArtifactPolicy } from '../core/artifacts.js';
 
 async function main() {
   const config: SlackConfig = {
@@ -7,6 +11,24 @@ async function main() {
     appToken: process.env.SLACK_APP_TOKEN || '',
     signingSecret: process.env.SLACK_SIGNING_SECRET || '',
     userId: process.env.SLACK_USER_ID || '',
+    allowedUserIds: parseIdList(process.env.SLACK_ALLOWED_USERS),
+    notifications: parseNotificationPolicy('Slack', process.env.SLACK_QUIET_HOURS, process.env.SLACK_NOTIFY_DELAY),
+    toolCalls: parseToolCallPolicy(
+      'Slack',
+      process.env.SLACK_TOOL_CALLS,
+      process.env.SLACK_TOOL_CALLS_INCLUDE,
+      process.env.SLACK_TOOL_CALLS_EXCLUDE,
+      'off'
+    ),
+    announceCompletedTodos: process.env.SLACK_ANNOUNCE_TODOS === 'true',
+    streamReplies: process.env.SLACK_STREAMING === 'true',
+    artifacts: parseArtifactPolicy(
+      'Slack',
+      process.env.SLACK_ARTIFACT_EXTENSIONS,
+      process.env.SLACK_ARTIFACT_MAX_MB,
+      process.env.SLACK_ARTIFACT_ROOTS,
+      100 * 1024 * 1024
+    ),
   };
 
   // Validate required config
@@ -23,6 +45,10 @@ async function main() {
     console.error('');
     console.error('Optional:');
     console.error('  SLACK_SIGNING_SECRET - Signing secret (for request verification)');
+    console.error('  SLACK_ALLOWED_USERS  - Other user IDs allowed to send input (comma-separated)');
+    console.error('  SLACK_QUIET_HOURS    - No @mentions during these hours (e.g. 22:00-07:00)');
+    console.error('  SLACK_NOTIFY_DELAY   - Seconds to wait before an @mention (default 10)');
+    console.error('  SLACK_TOOL_CALLS     - Tool calls to post: off (default), summary or full');
     process.exit(1);
   }
 
@@ -1,24 +1,101 @@
 import type { TodoItem } from '../types.js';
+import type { ToolCallInfo, ToolResultInfo } from './session-manager.js';
+import type { PermissionPrompt } from '../utils/permission-prompt.js';
+import type { AskQuestion } from '../utils/ask-user-question.js';
+import type { EditDiff } from '../utils/edit-diff.js';
+import { parseMarkdown, inlineText, formatTextTable, formatListItem, type Block, type Inline } from '../utils/markdown.js';
 
-/**
- * Convert GitHub-flavored markdown to Slack mrkdwn format
- */
-export function markdownToSlack(markdown: string): string {
-  let text = markdown;
+// Diffs longer than this are uploaded as a .diff file instead of posted inline
+const INLINE_DIFF_MAX_LINES = 30;
+const INLINE_DIFF_MAX_CHARS = 1500;
+
+// Slack treats these as markup everywhere, even in code, so they are always sent escaped
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Link targets Slack can open; anything else (e.g. a relative path) is shown as text
+const LINK_URL_PATTERN = /^(?:https?|mailto):/i;
 
-  // Bold: **text** -> *text*
-  text = text.replace(/\*\*(.+?)\*\*/g, '*$1*');
+// A formatting character at the start of a word (or on its own), where Slack would read it as markup
+const MARKUP_START_PATTERN = /(^|[^\p{L}\p{N}])(?=[*_~`])/gu;
 
-  // Headers: # Header -> *Header*
-  text = text.replace(/^#{1,6}\s+(.+)$/gm, '*$1*');
+// mrkdwn has no escapes, so literal *, _, ~ and ` that could start formatting get a
+// zero-width space in front, which keeps Slack from pairing them up
+function escapeMarkup(text: string): string {
+  return text.replace(MARKUP_START_PATTERN, '$1\u200b');
+}
 
-  // Links: [text](url) -> <url|text>
-  text = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<$2|$1>');
+// `bold` is set inside headings, which are bold already
+function inlineToSlack(nodes: Inline[], bold = false): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeMarkup(escapeSlack(node.text));
+        case 'code':
+          return `\`${escapeSlack(node.text)}\``;
+        case 'break':
+          return '\n';
+        case 'strong':
+          return bold ? inlineToSlack(node.children, bold) : `*${inlineToSlack(node.children, true)}*`;
+        case 'emphasis':
+          return `_${inlineToSlack(node.children, bold)}_`;
+        case 'strike':
+          return `~${inlineToSlack(node.children, bold)}~`;
+        case 'link': {
+          if (!LINK_URL_PATTERN.test(node.url)) {
+            const label = inlineToSlack(node.children, bold);
+            const url = escapeMarkup(escapeSlack(node.url));
+            return label === url ? label : `${label} (${url})`;
+          }
+          // Link labels can't be formatted, and a | would end the URL
+          const url = escapeSlack(node.url).replace(/\|/g, '%7C');
+          const label = escapeSlack(inlineText(node.children));
+          return label && label !== url ? `<${url}|${label}>` : `<${url}>`;
+        }
+      }
+    })
+    .join('');
+}
 
-  // Strikethrough: ~~text~~ -> ~text~
-  text = text.replace(/~~(.+?)~~/g, '~$1~');
+// List items' blocks are joined by single newlines, keeping lists compact
+function blocksToSlack(blocks: Block[], depth = 0, separator = '\n\n'): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineToSlack(block.children);
+        case 'heading':
+          return `*${inlineToSlack(block.children, true)}*`;
+        case 'code':
+          // Kept verbatim - the language is dropped, as Slack would show it as the first line of code
+          return `\`\`\`\n${escapeSlack(block.text)}\n\`\`\``;
+        case 'table':
+          return `\`\`\`\n${escapeSlack(formatTextTable(block))}\n\`\`\``;
+        case 'quote':
+          return blocksToSlack(block.children, depth)
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n');
+        case 'rule':
+          return '──────────';
+        case 'list':
+          // mrkdwn has no lists, so items are laid out as indented text
+          return block.items
+            .map((item, n) => formatListItem(block, n, depth, blocksToSlack(item.children, depth + 1, '\n')))
+            .join('\n');
+      }
+    })
+    .join(separator);
+}
 
-  return text;
+/**
+ * Convert GitHub-flavored markdown to Slack mrkdwn format. Tables become
+ * aligned preformatted text, and nested lists are indented with their own bullets.
+ */
+export function markdownToSlack(markdown: string): string {
+  return blocksToSlack(parseMarkdown(markdown));
 }
 
 /**
@@ -56,17 +133,24 @@ export function chunkMessage(text: string, maxLength = 39000): string[] {
  * Format session status with emoji
  */
 export function formatSessionStatus(status: 'running' | 'idle' | 'ended'): string {
-  const icons: Record<string, string> = {
-    running: ':hourglass_flowing_sand:',
-    idle: ':white_check_mark:',
-    ended: ':stop_sign:',
-  };
   const labels: Record<string, string> = {
     running: 'Running',
     idle: 'Idle',
     ended: 'Ended',
   };
-  return `${icons[status]} ${labels[status]}`;
+  return `${sessionStatusIcon(status)} ${labels[status]}`;
+}
+
+/**
+ * Just the icon for a session status, for channel names and topics
+ */
+export function sessionStatusIcon(status: 'running' | 'idle' | 'ended'): string {
+  const icons: Record<string, string> = {
+    running: '⏳',
+    idle: '✅',
+    ended: '🛑',
+  };
+  return icons[status];
 }
 
 /**
@@ -76,16 +160,211 @@ export function formatTodos(todos: TodoItem[]): string {
   if (todos.length === 0) return '';
 
   const icons: Record<string, string> = {
-    pending: ':white_circle:',
-    in_progress: ':large_blue_circle:',
-    completed: ':white_check_mark:',
+    pending: '⚪',
+    in_progress: '🔵',
+    completed: '✅',
   };
 
   return todos
     .map((t) => {
-      const icon = icons[t.status] || ':white_circle:';
+      const icon = icons[t.status] || '⚪';
       const text = t.status === 'in_progress' && t.activeForm ? t.activeForm : t.content;
       return `${icon} ${text}`;
     })
     .join('\n');
 }
+
+/**
+ * Format a session's task list with how much of it is done, e.g. "(3/7 done)"
+ */
+export function formatTodoList(todos: TodoItem[]): string {
+  const done = todos.filter((t) => t.status === 'completed').length;
+  return `**Tasks** (${done}/${todos.length} done)\n${formatTodos(todos)}`;
+}
+
+/**
+ * Format a one-line tool call summary
+ */
+export function formatToolCall(tool: ToolCallInfo): string {
+  let inputSummary = '';
+  if (tool.name === 'Bash' && tool.input.command) {
+    inputSummary = `\`${tool.input.command.slice(0, 100)}${tool.input.command.length > 100 ? '...' : ''}\``;
+  } else if (tool.name === 'Read' && tool.input.file_path) {
+    inputSummary = `\`${tool.input.file_path}\``;
+  } else if ((tool.name === 'Edit' || tool.name === 'MultiEdit') && tool.input.file_path) {
+    inputSummary = `\`${tool.input.file_path}\``;
+  } else if (tool.name === 'Write' && tool.input.file_path) {
+    inputSummary = `\`${tool.input.file_path}\``;
+  } else if (tool.name === 'Grep' && tool.input.pattern) {
+    inputSummary = `\`${tool.input.pattern}\``;
+  } else if (tool.name === 'Glob' && tool.input.pattern) {
+    inputSummary = `\`${tool.input.pattern}\``;
+  } else if (tool.name === 'Task' && tool.input.description) {
+    inputSummary = tool.input.description;
+  }
+
+  return inputSummary ? `🔧 **${tool.name}**: ${inputSummary}` : `🔧 **${tool.name}**`;
+}
+
+/**
+ * Whether a diff is short enough to read inline in a message
+ */
+export function isShortDiff(diff: EditDiff): boolean {
+  return diff.diff.length <= INLINE_DIFF_MAX_CHARS && diff.diff.split('\n').length <= INLINE_DIFF_MAX_LINES;
+}
+
+/**
+ * Format an Edit, MultiEdit or Write call with its change counts, and the
+ * diff itself when it is posted inline rather than attached
+ */
+export function formatEditDiff(tool: ToolCallInfo, diff: EditDiff, inline: boolean): string {
+  const header = `${formatToolCall(tool)} (+${diff.added} -${diff.removed})`;
+  return inline ? `${header}\n\`\`\`diff\n${diff.diff}\n\`\`\`` : `${header}\n_Full diff attached_`;
+}
+
+/**
+ * Format an Edit, MultiEdit or Write call whose diff is withheld, because
+ * the upload sandbox doesn't allow sharing the file's contents
+ */
+export function formatWithheldDiff(tool: ToolCallInfo, refusal: string): string {
+  return `${formatToolCall(tool)}\n_Diff not shown: ${refusal}_`;
+}
+
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+
+/**
+ * Format a duration as e.g. "45s" or "2m 05s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Format a file size as e.g. "820 KB" or "12.5 MB"
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * List files Claude mentioned that were too large to upload
+ */
+export function formatSkippedArtifacts(files: { path: string; size: number }[], maxBytes: number): string {
+  const list = files.map((f) => `- \`${f.path}\` (${formatSize(f.size)})`).join('\n');
+  return `📎 Not uploaded - larger than ${formatSize(maxBytes)}:\n${list}`;
+}
+
+/**
+ * Format a command that is still running, with the end of its output so far.
+ * `frame` advances the spinner on each update.
+ */
+export function formatRunningCommand(
+  tool: ToolCallInfo,
+  elapsedMs: number,
+  output: string,
+  frame: number,
+  waiting: boolean
+): string {
+  const state = waiting
+    ? `⏸️ Waiting · ${formatDuration(elapsedMs)}`
+    : `${SPINNER_FRAMES[frame % SPINNER_FRAMES.length]} Running · ${formatDuration(elapsedMs)}`;
+  const lines = [formatToolCall(tool), state];
+  if (output) {
+    lines.push('```', output, '```');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a command that has finished, with its exit status
+ */
+export function formatFinishedCommand(tool: ToolCallInfo, result: ToolResultInfo, elapsedMs: number): string {
+  const exitCode = result.content.match(/^Exit code (\d+)/m)?.[1];
+  const status = result.isError ? `❌ Failed${exitCode ? ` (exit code ${exitCode})` : ''}` : '✅ Done';
+  return `${formatToolCall(tool)}\n${status} · ${formatDuration(elapsedMs)}`;
+}
+
+/**
+ * Format a tool result as a code block, truncated to fit a single message
+ */
+export function formatToolResult(result: ToolResultInfo, maxLength = 1800): string {
+  let content = result.content;
+  if (content.length > maxLength) {
+    content = content.slice(0, maxLength) + '\n... (truncated)';
+  }
+
+  const prefix = result.isError ? '❌ Error:' : '✅ Result:';
+  return `${prefix}\n\`\`\`\n${content}\n\`\`\``;
+}
+
+/**
+ * Format the message a sub-agent's thread hangs off
+ */
+export function formatSubagentStart(tool: ToolCallInfo): string {
+  const kind = typeof tool.input.subagent_type === 'string' ? ` (${tool.input.subagent_type})` : '';
+  const description = tool.input.description || 'Task';
+  return `🤖 **Sub-agent${kind}**: ${description}`;
+}
+
+/**
+ * Format a sub-agent's final report, posted at the end of its thread
+ */
+export function formatSubagentResult(result: ToolResultInfo): string {
+  if (result.isError) {
+    return formatToolResult(result);
+  }
+  return `✅ **Result:**\n${result.content}`;
+}
+
+/**
+ * Format a permission prompt with what is being requested and the terminal's options
+ */
+export function formatPermissionPrompt(prompt: PermissionPrompt): string {
+  const [title, ...details] = prompt.details;
+  const lines = ['🔐 **Claude needs permission**'];
+  if (title) lines.push(`**${title}**`);
+  if (details.length > 0) lines.push('```\n' + details.join('\n') + '\n```');
+  lines.push(prompt.question);
+  lines.push(...prompt.options.map((o) => `${o.key}. ${o.label}`));
+  return lines.join('\n');
+}
+
+/**
+ * Format one of Claude's questions with its numbered options.
+ * `selected` marks options picked so far in a multi-select question.
+ */
+export function formatQuestion(question: AskQuestion, index: number, total: number, selected: number[] = []): string {
+  const counter = total > 1 ? ` (${index + 1}/${total})` : '';
+  const lines = [`❓ **Claude has a question${counter}**`];
+  if (question.header) lines.push(`**${question.header}**`);
+  lines.push(question.question);
+
+  question.options.forEach((option, i) => {
+    const mark = selected.includes(i) ? '☑️ ' : '';
+    const description = option.description ? ` - ${option.description}` : '';
+    lines.push(`${mark}${i + 1}. **${option.label}**${description}`);
+  });
+
+  lines.push(question.multiSelect ? '_Pick one or more, then press Done._' : '_Pick one, or choose Other to type an answer._');
+  return lines.join('\n');
+}
+
+/**
+ * Headline for a plan waiting for review, with the plan's outline.
+ * The full plan is posted underneath.
+ */
+export function formatPlanReview(plan: string): string {
+  const headings = plan
+    .split('\n')
+    .filter((line) => /^#{1,3}\s+/.test(line))
+    .map((line) => `• ${line.replace(/^#+\s+/, '')}`)
+    .slice(0, 10);
+
+  const lines = ['📋 **Plan ready for review**'];
+  if (headings.length > 0) lines.push(...headings);
+  lines.push('_The full plan is in the reply below._');
+  return lines.join('\n');
+}
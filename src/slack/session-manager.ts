@@ -4,13 +4,53 @@
  */
 
 import { watch, type FSWatcher } from 'fs';
-import { readdir, readFile, stat, unlink, mkdir } from 'fs/promises';
-import { createServer, type Server, type Socket } from 'net';
-import { createHash } from 'crypto';
+import { readdir, open, stat, unlink, mkdir } from 'fs/promises';
+import { createServer, createConnection, type Server, type Socket } from 'net';
 import type { TodoItem } from '../types.js';
+import type { PermissionPrompt } from '../utils/permission-prompt.js';
+import { JsonStore } from '../utils/json-store.js';
+import { JsonlTailer } from '../utils/jsonl-tailer.js';
 
 const DAEMON_SOCKET = '/tmp/afk-code-daemon.sock';
 
+// Enough to catch lines repeated when Claude Code copies a conversation into a new file
+const MAX_SEEN_UUIDS = 5000;
+
+// How long a disconnected session (or one saved before a restart) has to reconnect before it's ended
+const RECONNECT_GRACE_MS = 60_000;
+
+// Bytes read from the top of a transcript to tell what it belongs to
+const HEAD_SIZE = 256 * 1024;
+
+// The backup poll looks for a newer transcript (after /clear, /resume) at most this often;
+// the directory watcher notices one straight away
+const NEXT_FILE_POLL_MS = 10_000;
+
+// Claude Code writes each content block of a reply as its own line, and only the last one
+// says the turn ended. A text line without that is only taken as the end of the turn once
+// the transcript has been quiet this long, so a tool call right after it doesn't flicker the status
+const IDLE_SETTLE_MS = 1500;
+
+// Tools that wait for the user to answer, so a session running only these is idle
+const WAITING_TOOLS = new Set(['AskUserQuestion', 'ExitPlanMode']);
+
+// One parsed transcript line. Claude Code's format is undocumented, so fields are checked
+// where they're used, and helpers that walk content blocks catch malformed ones
+type TranscriptEntry = Record<string, any>;
+
+// A transcript line as an object, or null if it isn't one (e.g. not JSON)
+function parseTranscriptLine(line: string): TranscriptEntry | null {
+  try {
+    const data = JSON.parse(line);
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// What a transcript line says about the session: 'settling' is idle unless more lines follow soon
+type LineStatus = 'running' | 'idle' | 'settling';
+
 export interface SessionInfo {
   id: string;
   name: string;
@@ -24,11 +64,45 @@ interface InternalSession extends SessionInfo {
   socket: Socket;
   watcher?: FSWatcher;
   watchedFile?: string;
-  seenMessages: Set<string>;
+  seenUuids: Set<string>; // Recently relayed lines, by their JSONL uuid
   slugFound: boolean;
-  lastTodosHash: string;
+  lastTodos: string; // JSON of the last todo list posted
   inPlanMode: boolean;
+  pendingTools: Map<string, string>; // tool_use ID -> tool name, until its result arrives
   initialFileStats: Map<string, number>; // path -> mtime at session start
+  offset: number; // Bytes of watchedFile already relayed
+  tailer?: JsonlTailer;
+  transcriptId?: string; // Claude Code's own sessionId, from watchedFile's lines
+  boundFile?: string; // The transcript run.ts told claude to write, when known
+  rejectedFiles: Map<string, number>; // path -> size when it was last found not to be ours
+  switching: boolean;
+  subagents: Map<string, Subagent>; // Task tool_use ID -> the sub-agent it started
+  terminalOutput: string; // The end of the terminal's output, as plain text (from run.ts)
+  idleTimer?: ReturnType<typeof setTimeout>; // Turns a 'settling' status into idle, see IDLE_SETTLE_MS
+}
+
+// A sub-agent started by a Task tool call, relayed from its own transcript
+interface Subagent {
+  prompt: string;
+  tailer?: JsonlTailer; // Once its transcript is found
+  done: boolean; // The Task call has its result
+}
+
+// Why a session's conversation started over: a new transcript or a compaction
+export type ConversationReset = 'cleared' | 'compacted' | 'resumed';
+
+// What is saved about a session so it can be picked up again after a restart
+interface SavedSession {
+  id: string;
+  name: string;
+  cwd: string;
+  projectDir: string;
+  startedAt: string;
+  slugFound: boolean;
+  watchedFile?: string;
+  offset: number;
+  transcriptId?: string;
+  initialFileStats: Array<[string, number]>;
 }
 
 export interface ChatMessage {
@@ -50,7 +124,7 @@ export interface ToolResultInfo {
 }
 
 export interface SessionEvents {
-  onSessionStart: (session: SessionInfo) => void;
+  onSessionStart: (session: SessionInfo, resumed: boolean) => void; // resumed: reconnected after a restart
   onSessionEnd: (sessionId: string) => void;
   onSessionUpdate: (sessionId: string, name: string) => void;
   onSessionStatus: (sessionId: string, status: 'running' | 'idle' | 'ended') => void;
@@ -59,28 +133,84 @@ export interface SessionEvents {
   onToolCall: (sessionId: string, tool: ToolCallInfo) => void;
   onToolResult: (sessionId: string, result: ToolResultInfo) => void;
   onPlanModeChange: (sessionId: string, inPlanMode: boolean) => void;
+  onConversationReset: (sessionId: string, reason: ConversationReset) => void;
+  onSubagentMessage: (sessionId: string, toolUseId: string, content: string) => void;
+  onPermissionPrompt: (sessionId: string, prompt: PermissionPrompt) => void;
+  onPermissionResolved: (sessionId: string, promptId: string) => void;
+  onSessionError: (sessionId: string, message: string) => void;
 }
 
-function hash(data: string): string {
-  return createHash('md5').update(data).digest('hex');
+// Check whether another process is already accepting connections on the socket
+function isSocketInUse(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = createConnection(path);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
 }
 
 export class SessionManager {
   private sessions = new Map<string, InternalSession>();
   private claimedFiles = new Set<string>();
-  private events: SessionEvents;
+  private listeners: SessionEvents[] = [];
   private server: Server | null = null;
+  private store = new JsonStore<Record<string, SavedSession>>('sessions.json');
+  private saved: Record<string, SavedSession> = {};
+  // Sessions waiting for their terminal to reconnect, ended when the timer fires
+  private detached = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(events?: SessionEvents) {
+    if (events) {
+      this.listeners.push(events);
+    }
+  }
 
-  constructor(events: SessionEvents) {
-    this.events = events;
+  /**
+   * Register another set of event handlers. Every event is delivered to all
+   * listeners, so several chat platforms can share one set of sessions.
+   */
+  addListener(events: SessionEvents): void {
+    this.listeners.push(events);
+  }
+
+  private emit<K extends keyof SessionEvents>(event: K, ...args: Parameters<SessionEvents[K]>): void {
+    for (const listener of this.listeners) {
+      try {
+        const result: unknown = (listener[event] as (...a: Parameters<SessionEvents[K]>) => unknown)(...args);
+        // Handlers are usually async - keep one platform's failure from affecting the others
+        Promise.resolve(result).catch((err) => {
+          console.error(`[SessionManager] ${event} handler failed:`, err);
+        });
+      } catch (err) {
+        console.error(`[SessionManager] ${event} handler failed:`, err);
+      }
+    }
   }
 
   async start(): Promise<void> {
+    // Refuse to steal the socket from a bot that is still running
+    if (await isSocketInUse(DAEMON_SOCKET)) {
+      throw new Error(
+        `Another afk-code bot is already listening on ${DAEMON_SOCKET}. ` +
+          'Stop it first, or run several platforms from one process with "afk-code serve".'
+      );
+    }
+
     // Remove old socket file
     try {
       await unlink(DAEMON_SOCKET);
     } catch {}
 
+    // Sessions from before a restart get a chance to reconnect (see run.ts)
+    this.saved = this.store.load({});
+    for (const id of Object.keys(this.saved)) {
+      console.log(`[SessionManager] Waiting for session ${id} to reconnect`);
+      this.detach(id);
+    }
+
     // Start Unix socket server
     this.server = createServer((socket) => {
       let messageBuffer = '';
@@ -106,13 +236,13 @@ export class SessionManager {
       });
 
       socket.on('close', () => {
-        // Find and cleanup session for this socket
+        // Find the session for this socket - it may reconnect, so don't end it yet
         for (const [id, session] of this.sessions) {
           if (session.socket === socket) {
             console.log(`[SessionManager] Session disconnected: ${id}`);
             this.stopWatching(session);
             this.sessions.delete(id);
-            this.events.onSessionEnd(id);
+            this.detach(id);
             break;
           }
         }
@@ -129,37 +259,70 @@ export class SessionManager {
       this.stopWatching(session);
     }
     this.sessions.clear();
+    for (const timer of this.detached.values()) {
+      clearTimeout(timer);
+    }
+    this.detached.clear();
     if (this.server) {
       this.server.close();
     }
   }
 
   sendInput(sessionId: string, text: string): boolean {
+    // Send text first, then Enter
+    if (!this.sendKeys(sessionId, text)) {
+      return false;
+    }
+
+    setTimeout(() => {
+      // Session may have been cleaned up in the meantime
+      if (this.sessions.has(sessionId)) {
+        this.sendKeys(sessionId, '\r');
+      }
+    }, 50);
+
+    return true;
+  }
+
+  /**
+   * Write raw keystrokes to the session's terminal, without pressing Enter
+   */
+  sendKeys(sessionId: string, keys: string): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) {
       console.error(`[SessionManager] Session not found: ${sessionId}`);
       return false;
     }
 
-    // Send text first, then Enter
     try {
-      session.socket.write(JSON.stringify({ type: 'input', text }) + '\n');
+      session.socket.write(JSON.stringify({ type: 'input', text: keys }) + '\n');
     } catch (err) {
       console.error(`[SessionManager] Failed to send input to ${sessionId}:`, err);
       // Socket is dead, clean up
-      this.stopWatching(session);
-      this.sessions.delete(sessionId);
-      this.events.onSessionEnd(sessionId);
+      this.endSession(session);
       return false;
     }
 
-    setTimeout(() => {
-      try {
-        session.socket.write(JSON.stringify({ type: 'input', text: '\r' }) + '\n');
-      } catch {
-        // Session likely already cleaned up from the first write failure
-      }
-    }, 50);
+    return true;
+  }
+
+  /**
+   * Write keystrokes one at a time, a short pause apart, so the terminal UI
+   * handles each as a separate key press (e.g. arrow keys then Enter)
+   */
+  sendKeySequence(sessionId: string, keys: string[], delayMs = 50): boolean {
+    const [first, ...rest] = keys;
+    if (first === undefined) return true;
+    if (!this.sendKeys(sessionId, first)) return false;
+
+    rest.forEach((key, i) => {
+      setTimeout(() => {
+        // Session may have been cleaned up in the meantime
+        if (this.sessions.has(sessionId)) {
+          this.sendKeys(sessionId, key);
+        }
+      }, delayMs * (i + 1));
+    });
 
     return true;
   }
@@ -177,6 +340,13 @@ export class SessionManager {
     };
   }
 
+  /**
+   * The end of what the session's terminal has shown recently, as plain text
+   */
+  getTerminalOutput(sessionId: string): string {
+    return this.sessions.get(sessionId)?.terminalOutput ?? '';
+  }
+
   getAllSessions(): SessionInfo[] {
     return Array.from(this.sessions.values()).map((s) => ({
       id: s.id,
@@ -191,54 +361,181 @@ export class SessionManager {
   private async handleSessionMessage(socket: Socket, message: any): Promise<void> {
     switch (message.type) {
       case 'session_start': {
+        // Same session, new connection (the old one hasn't been noticed closing yet)
+        const current = this.sessions.get(message.id);
+        if (current) {
+          current.socket = socket;
+          this.bindTranscript(current, message.transcriptId);
+          console.log(`[SessionManager] Session reconnected: ${message.id}`);
+          break;
+        }
+
+        // A session from before a restart or a dropped connection picks up where it left off
+        const saved = this.saved[message.id];
+        clearTimeout(this.detached.get(message.id));
+        this.detached.delete(message.id);
+
         // Snapshot existing JSONL files before creating session
-        const initialFileStats = await this.snapshotJsonlFiles(message.projectDir);
+        const initialFileStats = saved
+          ? new Map(saved.initialFileStats)
+          : await this.snapshotJsonlFiles(message.projectDir);
 
         const session: InternalSession = {
           id: message.id,
-          name: message.name || message.command?.join(' ') || 'Session',
+          name: saved?.name || message.name || message.command?.join(' ') || 'Session',
           cwd: message.cwd,
           projectDir: message.projectDir,
           socket,
-          status: 'running',
-          seenMessages: new Set(),
-          startedAt: new Date(),
-          slugFound: false,
-          lastTodosHash: '',
+          status: 'idle', // Claude starts at an empty prompt
+          seenUuids: new Set(),
+          startedAt: new Date(saved?.startedAt ?? message.startedAt ?? Date.now()),
+          slugFound: saved?.slugFound ?? false,
+          lastTodos: '',
           inPlanMode: false,
+          pendingTools: new Map(),
           initialFileStats,
+          watchedFile: saved?.watchedFile,
+          offset: saved?.offset ?? 0,
+          transcriptId: saved?.transcriptId,
+          rejectedFiles: new Map(),
+          switching: false,
+          subagents: new Map(),
+          terminalOutput: '',
         };
 
+        this.bindTranscript(session, message.transcriptId);
         this.sessions.set(message.id, session);
-        console.log(`[SessionManager] Session started: ${message.id} - ${session.name}`);
-        console.log(`[SessionManager] Snapshot: ${initialFileStats.size} existing JSONL files`);
-
-        this.events.onSessionStart({
-          id: session.id,
-          name: session.name,
-          cwd: session.cwd,
-          projectDir: session.projectDir,
-          status: session.status,
-          startedAt: session.startedAt,
-        });
+        this.saveSession(session);
+        if (saved) {
+          console.log(`[SessionManager] Session resumed: ${message.id} - ${session.name}`);
+        } else {
+          console.log(`[SessionManager] Session started: ${message.id} - ${session.name}`);
+          console.log(`[SessionManager] Snapshot: ${initialFileStats.size} existing JSONL files`);
+        }
+
+        this.emit(
+          'onSessionStart',
+          {
+            id: session.id,
+            name: session.name,
+            cwd: session.cwd,
+            projectDir: session.projectDir,
+            status: session.status,
+            startedAt: session.startedAt,
+          },
+          saved !== undefined
+        );
 
         this.startWatching(session);
         break;
       }
 
+      case 'permission_prompt': {
+        const session = this.sessions.get(message.sessionId);
+        if (session && message.prompt) {
+          console.log(`[SessionManager] Session ${session.id} waiting for permission: ${message.prompt.question}`);
+          this.emit('onPermissionPrompt', session.id, message.prompt);
+          this.setStatus(session, 'idle');
+        }
+        break;
+      }
+
+      case 'permission_resolved': {
+        const session = this.sessions.get(message.sessionId);
+        if (session) {
+          this.emit('onPermissionResolved', session.id, message.promptId);
+          this.setStatus(session, 'running');
+        }
+        break;
+      }
+
+      case 'output': {
+        const session = this.sessions.get(message.sessionId);
+        if (session && typeof message.text === 'string') {
+          session.terminalOutput = message.text;
+        }
+        break;
+      }
+
       case 'session_end': {
         const session = this.sessions.get(message.sessionId);
         if (session) {
           console.log(`[SessionManager] Session ended: ${message.sessionId}`);
-          this.stopWatching(session);
-          this.sessions.delete(message.sessionId);
-          this.events.onSessionEnd(message.sessionId);
+          this.endSession(session);
         }
         break;
       }
     }
   }
 
+  /**
+   * Tie a session to the transcript named after the Claude session ID that
+   * run.ts gave claude. Claiming it right away keeps other sessions in the same
+   * directory from mistaking it for theirs. run.ts sends the same ID when it
+   * reconnects, even after /clear or a compaction moved the conversation on to
+   * a newer transcript - the session keeps following that one.
+   */
+  private bindTranscript(session: InternalSession, transcriptId: unknown): void {
+    if (typeof transcriptId !== 'string' || !/^[\w-]+$/.test(transcriptId)) return;
+
+    const boundFile = `${session.projectDir}/${transcriptId}.jsonl`;
+    if (session.watchedFile && session.watchedFile !== boundFile) return;
+
+    session.boundFile = boundFile;
+    if (!session.watchedFile) {
+      session.transcriptId = transcriptId;
+      this.claimedFiles.add(session.boundFile);
+    }
+  }
+
+  private endSession(session: InternalSession): void {
+    this.stopWatching(session);
+    this.sessions.delete(session.id);
+    this.forgetSession(session.id);
+    this.emit('onSessionEnd', session.id);
+  }
+
+  // Give a disconnected session time to reconnect before ending it
+  private detach(sessionId: string): void {
+    clearTimeout(this.detached.get(sessionId));
+    this.detached.set(
+      sessionId,
+      setTimeout(() => {
+        this.detached.delete(sessionId);
+        if (this.sessions.has(sessionId)) return;
+
+        console.log(`[SessionManager] Session ${sessionId} did not reconnect - ending it`);
+        this.forgetSession(sessionId);
+        this.emit('onSessionEnd', sessionId);
+      }, RECONNECT_GRACE_MS)
+    );
+  }
+
+  private saveSession(session: InternalSession): void {
+    // A read still under way when the session ended (or reconnected) mustn't bring back its old state
+    const current = this.sessions.get(session.id);
+    if (current ? current !== session : !this.detached.has(session.id)) return;
+
+    this.saved[session.id] = {
+      id: session.id,
+      name: session.name,
+      cwd: session.cwd,
+      projectDir: session.projectDir,
+      startedAt: session.startedAt.toISOString(),
+      slugFound: session.slugFound,
+      watchedFile: session.watchedFile,
+      offset: session.offset,
+      transcriptId: session.transcriptId,
+      initialFileStats: [...session.initialFileStats],
+    };
+    this.store.save(this.saved);
+  }
+
+  private forgetSession(sessionId: string): void {
+    delete this.saved[sessionId];
+    this.store.save(this.saved);
+  }
+
   private async snapshotJsonlFiles(projectDir: string): Promise<Map<string, number>> {
     const stats = new Map<string, number>();
     try {
@@ -256,9 +553,21 @@ export class SessionManager {
     return stats;
   }
 
+  // The start of a transcript - conversation messages come right after a few metadata lines
+  private async readHead(path: string): Promise<string> {
+    const file = await open(path, 'r');
+    try {
+      const head = Buffer.alloc(HEAD_SIZE);
+      const { bytesRead } = await file.read(head, 0, head.length, 0);
+      return head.subarray(0, bytesRead).toString('utf-8');
+    } finally {
+      await file.close();
+    }
+  }
+
   private async hasConversationMessages(path: string): Promise<boolean> {
     try {
-      const content = await readFile(path, 'utf-8');
+      const content = await this.readHead(path);
       // Check if file contains actual conversation messages (not just metadata)
       return content.includes('"type":"user"') || content.includes('"type":"assistant"');
     } catch {
@@ -266,7 +575,120 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Look for a transcript the session's Claude process has moved on to, e.g.
+   * after /clear, a compaction or /resume - Claude Code then writes to a new
+   * file and the one being watched goes quiet.
+   */
+  private async findNextJsonlFile(
+    session: InternalSession
+  ): Promise<{ path: string; reason: ConversationReset; head: string } | null> {
+    try {
+      const watchedMtime = (await stat(session.watchedFile!)).mtimeMs;
+      const files = await readdir(session.projectDir);
+
+      for (const f of files) {
+        if (!f.endsWith('.jsonl') || f.startsWith('agent-')) continue;
+        const path = `${session.projectDir}/${f}`;
+        if (path === session.watchedFile || this.claimedFiles.has(path)) continue;
+
+        const fileStat = await stat(path);
+        // Left over from before the session, or older than the file being watched
+        const initialMtime = session.initialFileStats.get(path);
+        if (initialMtime !== undefined && fileStat.mtimeMs <= initialMtime) continue;
+        if (fileStat.mtimeMs < watchedMtime) continue;
+        // Already looked at, and it hasn't grown since
+        if (session.rejectedFiles.get(path) === fileStat.size) continue;
+
+        const head = await this.readHead(path);
+        const reason = this.transcriptLink(session, head);
+        if (reason) return { path, reason, head };
+        session.rejectedFiles.set(path, fileStat.size);
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a transcript (given its first lines) carries on this session's
+   * conversation: it has the same Claude sessionId, links back to a line
+   * already relayed (parentUuid), or was started by /clear or /resume in the
+   * same cwd.
+   */
+  private transcriptLink(session: InternalSession, head: string): ConversationReset | null {
+    let linked = false;
+    let compacted = false;
+    let command: string | null = null;
+    let hasMessages = false;
+
+    // The last line may be cut off
+    for (const line of head.split('\n').slice(0, -1)) {
+      try {
+        const data = JSON.parse(line);
+        if (typeof data.cwd === 'string' && data.cwd !== session.cwd) return null;
+
+        if (session.transcriptId && data.sessionId === session.transcriptId) linked = true;
+        for (const uuid of [data.parentUuid, data.logicalParentUuid, data.leafUuid]) {
+          if (typeof uuid === 'string' && session.seenUuids.has(uuid)) linked = true;
+        }
+        if (data.isCompactSummary || data.subtype === 'compact_boundary') compacted = true;
+
+        if (data.type === 'user' || data.type === 'assistant') hasMessages = true;
+        const content = data.message?.content;
+        const match = typeof content === 'string' ? content.match(/<command-name>(\/\w+)<\/command-name>/) : null;
+        if (match && !command) command = match[1];
+      } catch {
+        // Not JSON - ignore
+      }
+    }
+
+    if (!hasMessages) return null;
+    if (linked) return compacted ? 'compacted' : 'resumed';
+    if (command === '/clear') return 'cleared';
+    return command === '/resume' ? 'resumed' : null;
+  }
+
+  // Move to the transcript Claude is writing now, once the old one is read to the end
+  private async checkForNextJsonlFile(session: InternalSession): Promise<void> {
+    if (session.switching || !session.watchedFile) return;
+    session.switching = true;
+
+    try {
+      const next = await this.findNextJsonlFile(session);
+      if (!next || this.sessions.get(session.id) !== session) return;
+
+      await this.processJsonlUpdates(session);
+      console.log(`[SessionManager] Session ${session.id} conversation ${next.reason}`);
+      this.claimedFiles.delete(session.watchedFile);
+      // The transcript run.ts named is finished with - don't go back to it if the new one disappears
+      session.boundFile = undefined;
+      session.transcriptId = undefined;
+      session.rejectedFiles.clear();
+      if (next.reason === 'cleared') {
+        session.pendingTools.clear();
+        session.lastTodos = '';
+      }
+      this.watchFile(session, next.path);
+      // A compact boundary line in the new file is announced when it's read
+      if (!next.head.includes('"compact_boundary"')) {
+        this.emit('onConversationReset', session.id, next.reason);
+      }
+      await this.processJsonlUpdates(session);
+    } finally {
+      session.switching = false;
+    }
+  }
+
   private async findActiveJsonlFile(session: InternalSession): Promise<string | null> {
+    // No need to guess when run.ts told us the file name
+    if (session.boundFile) {
+      if (!(await this.hasConversationMessages(session.boundFile))) return null;
+      console.log(`[SessionManager] Found bound JSONL: ${session.boundFile}`);
+      return session.boundFile;
+    }
+
     try {
       const files = await readdir(session.projectDir);
       const jsonlFiles = files.filter((f) => f.endsWith('.jsonl') && !f.startsWith('agent-'));
@@ -325,79 +747,254 @@ export class SessionManager {
   }
 
   private async processJsonlUpdates(session: InternalSession): Promise<void> {
-    if (!session.watchedFile) return;
+    const tailer = session.tailer;
+    if (!tailer) return;
+
+    // A sub-agent's transcript is complete before its Task result shows up in the main one
+    if (session.subagents.size > 0) {
+      await this.processSubagents(session);
+    }
 
     try {
-      const content = await readFile(session.watchedFile, 'utf-8');
-      const lines = content.split('\n').filter(Boolean);
-
-      for (const line of lines) {
-        const lineHash = hash(line);
-        if (session.seenMessages.has(lineHash)) continue;
-        session.seenMessages.add(lineHash);
-
-        // Extract session name (slug)
-        if (!session.slugFound) {
-          const slug = this.extractSlug(line);
-          if (slug) {
-            session.slugFound = true;
-            session.name = slug;
-            console.log(`[SessionManager] Session ${session.id} name: ${slug}`);
-            this.events.onSessionUpdate(session.id, slug);
-          }
-        }
+      // Only the status at the end of the batch is reported, so a turn that is
+      // already over doesn't flicker through "running"
+      let status: LineStatus | null = null;
 
-        // Extract todos
-        const todos = this.extractTodos(line);
-        if (todos) {
-          const todosHash = hash(JSON.stringify(todos));
-          if (todosHash !== session.lastTodosHash) {
-            session.lastTodosHash = todosHash;
-            this.events.onTodos(session.id, todos);
-          }
-        }
+      await tailer.read((line) => {
+        status = this.processLine(session, line) ?? status;
+      });
 
-        // Detect plan mode changes
-        const planModeStatus = this.detectPlanMode(line);
-        if (planModeStatus !== null && planModeStatus !== session.inPlanMode) {
-          session.inPlanMode = planModeStatus;
-          console.log(`[SessionManager] Session ${session.id} plan mode: ${planModeStatus}`);
-          this.events.onPlanModeChange(session.id, planModeStatus);
-        }
+      // The file may have been switched while reading
+      if (session.tailer === tailer) {
+        session.offset = tailer.offset;
+      }
+      if (status === 'settling') {
+        this.settleIdle(session);
+      } else if (status) {
+        this.setStatus(session, status);
+      }
+      this.saveSession(session);
+    } catch (err: any) {
+      if (err.code === 'ENOENT' && session.tailer === tailer) {
+        // Deleted (or never written, for a session saved before a restart) - look for it again
+        console.log(`[SessionManager] Transcript is gone: ${tailer.path}`);
+        if (tailer.path !== session.boundFile) this.claimedFiles.delete(tailer.path);
+        session.watchedFile = undefined;
+        session.tailer = undefined;
+        session.offset = 0;
+        this.saveSession(session);
+        return;
+      }
+      console.error('[SessionManager] Error processing JSONL:', err);
+    }
+  }
+
+  // Relay one transcript line. Returns the session status it implies, if any
+  private processLine(session: InternalSession, line: string): LineStatus | null {
+    // Parsed once here; every helper below reads the same object
+    const data = parseTranscriptLine(line);
+    if (!data) return null;
+
+    // Lines copied into a new transcript (e.g. on resume) keep their uuid - relay each once
+    const uuid = this.extractUuid(data);
+    if (uuid) {
+      if (session.seenUuids.has(uuid)) return null;
+      session.seenUuids.add(uuid);
+      if (session.seenUuids.size > MAX_SEEN_UUIDS) {
+        // Sets iterate in insertion order, so this drops the oldest
+        session.seenUuids.delete(session.seenUuids.values().next().value!);
+      }
+    }
 
-        // Extract tool calls from assistant messages
-        const toolCalls = this.extractToolCalls(line);
-        for (const tool of toolCalls) {
-          this.events.onToolCall(session.id, tool);
+    // Remember which Claude session this transcript is, to recognize where it continues
+    const transcriptId = this.extractTranscriptId(data);
+    if (transcriptId) {
+      session.transcriptId = transcriptId;
+    }
+
+    // Extract session name (slug)
+    if (!session.slugFound) {
+      const slug = this.extractSlug(data);
+      if (slug) {
+        session.slugFound = true;
+        session.name = slug;
+        console.log(`[SessionManager] Session ${session.id} name: ${slug}`);
+        this.emit('onSessionUpdate', session.id, slug);
+      }
+    }
+
+    // Extract todos
+    const todos = this.extractTodos(data);
+    if (todos) {
+      const todosJson = JSON.stringify(todos);
+      if (todosJson !== session.lastTodos) {
+        session.lastTodos = todosJson;
+        this.emit('onTodos', session.id, todos);
+      }
+    }
+
+    const status = this.statusAfterLine(data, session);
+
+    // Detect plan mode changes
+    const planModeStatus = this.detectPlanMode(data);
+    if (planModeStatus !== null && planModeStatus !== session.inPlanMode) {
+      session.inPlanMode = planModeStatus;
+      console.log(`[SessionManager] Session ${session.id} plan mode: ${planModeStatus}`);
+      this.emit('onPlanModeChange', session.id, planModeStatus);
+    }
+
+    // Tool calls from before the session started (e.g. --continue) are history -
+    // replaying them would re-ask questions that were answered long ago
+    if (!this.isBeforeStart(data, session)) {
+      // Extract tool calls from assistant messages
+      const toolCalls = this.extractToolCalls(data);
+      for (const tool of toolCalls) {
+        if (tool.name === 'Task' && typeof tool.input.prompt === 'string') {
+          session.subagents.set(tool.id, { prompt: tool.input.prompt.trim(), done: false });
         }
+        this.emit('onToolCall', session.id, tool);
+      }
+
+      // Extract tool results from user messages
+      const toolResults = this.extractToolResults(data);
+      for (const result of toolResults) {
+        const subagent = session.subagents.get(result.toolUseId);
+        if (subagent) subagent.done = true;
+        this.emit('onToolResult', session.id, result);
+      }
+
+      // Requests that failed (API errors, rate limits) stop Claude mid-turn
+      const error = this.extractError(data);
+      if (error) {
+        this.emit('onSessionError', session.id, error);
+      }
+
+      // Newer Claude Code versions compact within the same file
+      if (this.isCompactBoundary(data)) {
+        this.emit('onConversationReset', session.id, 'compacted');
+      }
+    }
+
+    // Parse and forward messages
+    const parsed = this.extractMessage(data);
+    if (parsed) {
+      const messageTime = new Date(parsed.timestamp);
+      if (messageTime >= session.startedAt) {
+        this.emit('onMessage', session.id, parsed.role, parsed.content);
+      }
+    }
+
+    return status;
+  }
 
-        // Extract tool results from user messages
-        const toolResults = this.extractToolResults(line);
-        for (const result of toolResults) {
-          this.events.onToolResult(session.id, result);
+  /**
+   * Relay what running sub-agents have written since the last call, after
+   * pairing new sub-agent transcripts with the Task calls that started them
+   */
+  private async processSubagents(session: InternalSession): Promise<void> {
+    const unmatched = [...session.subagents].filter(([, subagent]) => !subagent.tailer && !subagent.done);
+    if (unmatched.length > 0) {
+      await this.findSubagentFiles(session, unmatched);
+    }
+
+    for (const [toolUseId, subagent] of session.subagents) {
+      if (subagent.tailer) {
+        try {
+          await subagent.tailer.read((line) => {
+            const data = parseTranscriptLine(line);
+            const parsed = data && this.extractMessage(data);
+            // The sub-agent's only user message is its prompt, already shown with the Task call
+            if (parsed?.role === 'assistant') {
+              this.emit('onSubagentMessage', session.id, toolUseId, parsed.content);
+            }
+          });
+        } catch (err) {
+          console.error('[SessionManager] Error processing sub-agent JSONL:', err);
         }
+      }
+
+      if (subagent.done) {
+        if (subagent.tailer) this.claimedFiles.delete(subagent.tailer.path);
+        session.subagents.delete(toolUseId);
+      }
+    }
+  }
+
+  /**
+   * Sub-agent transcripts (agent-*.jsonl, next to the main transcript or in
+   * its <session ID>/subagents/ directory) start with the Task prompt as
+   * their first user message - that's what ties them to a Task call.
+   */
+  private async findSubagentFiles(session: InternalSession, unmatched: Array<[string, Subagent]>): Promise<void> {
+    const dirs = [session.projectDir];
+    if (session.transcriptId) {
+      dirs.push(`${session.projectDir}/${session.transcriptId}/subagents`);
+    }
+
+    for (const dir of dirs) {
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch {
+        continue; // Not created yet
+      }
 
-        // Parse and forward messages
-        const parsed = this.parseJsonlLine(line);
-        if (parsed) {
-          const messageTime = new Date(parsed.timestamp);
-          if (messageTime < session.startedAt) continue;
+      for (const f of files) {
+        if (!f.startsWith('agent-') || !f.endsWith('.jsonl')) continue;
+        const path = `${dir}/${f}`;
+        if (this.claimedFiles.has(path)) continue;
 
-          this.events.onMessage(session.id, parsed.role, parsed.content);
+        try {
+          const fileStat = await stat(path);
+          if (fileStat.mtimeMs < session.startedAt.getTime()) continue;
+          if (session.rejectedFiles.get(path) === fileStat.size) continue;
+
+          const prompt = this.firstUserMessage(await this.readHead(path));
+          const match = unmatched.find(([, subagent]) => !subagent.tailer && subagent.prompt === prompt);
+          if (!match) {
+            session.rejectedFiles.set(path, fileStat.size);
+            continue;
+          }
+
+          match[1].tailer = new JsonlTailer(path);
+          this.claimedFiles.add(path);
+          console.log(`[SessionManager] Sub-agent for ${match[0]}: ${path}`);
+        } catch {
+          // Removed while looking - ignore
         }
       }
-    } catch (err) {
-      console.error('[SessionManager] Error processing JSONL:', err);
     }
   }
 
+  private firstUserMessage(head: string): string | null {
+    for (const line of head.split('\n')) {
+      try {
+        const data = JSON.parse(line);
+        if (data.type !== 'user') continue;
+
+        const content = data.message?.content;
+        if (typeof content === 'string') return content.trim();
+        if (Array.isArray(content)) {
+          return content
+            .filter((b: any) => b.type === 'text')
+            .map((b: any) => b.text)
+            .join('')
+            .trim();
+        }
+        return null;
+      } catch {
+        // Not JSON, or cut off - keep looking
+      }
+    }
+    return null;
+  }
+
   private async startWatching(session: InternalSession): Promise<void> {
-    const jsonlFile = await this.findActiveJsonlFile(session);
+    // A resumed session already knows its file
+    const jsonlFile = session.watchedFile ?? (await this.findActiveJsonlFile(session));
 
     if (jsonlFile) {
-      session.watchedFile = jsonlFile;
-      this.claimedFiles.add(jsonlFile);
-      console.log(`[SessionManager] Watching: ${jsonlFile}`);
+      this.watchFile(session, jsonlFile, session.offset);
       await this.processJsonlUpdates(session);
     } else {
       console.log(`[SessionManager] Waiting for JSONL changes in ${session.projectDir}`);
@@ -410,17 +1007,24 @@ export class SessionManager {
       session.watcher = watch(session.projectDir, { recursive: false }, async (_, filename) => {
         if (!filename?.endsWith('.jsonl')) return;
 
+        // A running sub-agent wrote to its transcript
+        if (filename.startsWith('agent-')) {
+          if (session.subagents.size > 0) await this.processJsonlUpdates(session);
+          return;
+        }
+
         if (!session.watchedFile) {
           const newFile = await this.findActiveJsonlFile(session);
-          if (newFile) {
-            session.watchedFile = newFile;
-            this.claimedFiles.add(newFile);
+          if (newFile && !session.watchedFile) {
+            this.watchFile(session, newFile);
           }
         }
 
         const filePath = `${session.projectDir}/${filename}`;
         if (session.watchedFile && filePath === session.watchedFile) {
           await this.processJsonlUpdates(session);
+        } else if (session.watchedFile) {
+          await this.checkForNextJsonlFile(session);
         }
       });
     } catch (err) {
@@ -428,51 +1032,132 @@ export class SessionManager {
     }
 
     // Poll as backup
+    let lastNextFileCheck = 0;
     const pollInterval = setInterval(async () => {
-      if (!this.sessions.has(session.id)) {
+      // Stop once the session ends or reconnects (which replaces this session object)
+      if (this.sessions.get(session.id) !== session) {
         clearInterval(pollInterval);
         return;
       }
 
       if (!session.watchedFile) {
         const newFile = await this.findActiveJsonlFile(session);
-        if (newFile) {
-          session.watchedFile = newFile;
-          this.claimedFiles.add(newFile);
+        if (newFile && !session.watchedFile) {
+          this.watchFile(session, newFile);
         }
       }
 
       if (session.watchedFile) {
         await this.processJsonlUpdates(session);
+        // Looking stats every transcript in the project, so it isn't done every second
+        if (Date.now() - lastNextFileCheck >= NEXT_FILE_POLL_MS) {
+          lastNextFileCheck = Date.now();
+          await this.checkForNextJsonlFile(session);
+        }
       }
     }, 1000);
   }
 
+  // Start tailing a transcript file, from `offset` when resuming
+  private watchFile(session: InternalSession, path: string, offset = 0): void {
+    // The watcher and the poll can both find the same new file
+    if (session.watchedFile === path && session.tailer) return;
+    session.watchedFile = path;
+    session.offset = offset;
+    session.tailer = new JsonlTailer(path, offset);
+    this.claimedFiles.add(path);
+    console.log(`[SessionManager] Watching: ${path}`);
+  }
+
   private stopWatching(session: InternalSession): void {
+    clearTimeout(session.idleTimer);
     if (session.watcher) {
       session.watcher.close();
     }
     if (session.watchedFile) {
       this.claimedFiles.delete(session.watchedFile);
     }
+    if (session.boundFile) {
+      this.claimedFiles.delete(session.boundFile);
+    }
+    for (const subagent of session.subagents.values()) {
+      if (subagent.tailer) this.claimedFiles.delete(subagent.tailer.path);
+    }
+  }
+
+  // Report the session idle if no line changes its status within IDLE_SETTLE_MS
+  private settleIdle(session: InternalSession): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      session.idleTimer = undefined;
+      if (this.sessions.get(session.id) === session) {
+        this.setStatus(session, 'idle');
+      }
+    }, IDLE_SETTLE_MS);
   }
 
-  private detectPlanMode(line: string): boolean | null {
+  private setStatus(session: InternalSession, status: SessionInfo['status']): void {
+    // A status from a later line (or a permission prompt) replaces one still settling
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    if (session.status === status) return;
+    session.status = status;
+    console.log(`[SessionManager] Session ${session.id} is ${status}`);
+    this.emit('onSessionStatus', session.id, status);
+  }
+
+  /**
+   * Track tool calls and turns to tell whether Claude is working or waiting for
+   * the user. A prompt starts a turn; the turn is over once Claude has replied
+   * with no tool call still waiting for its result (or is interrupted). A reply
+   * line that doesn't say the turn ended is 'settling', as more of it may follow.
+   * Returns null when the line doesn't change the status.
+   */
+  private statusAfterLine(data: TranscriptEntry, session: InternalSession): LineStatus | null {
     try {
-      const data = JSON.parse(line);
-      if (data.type !== 'user') return null;
+      if (data.isMeta || data.isSidechain) return null;
 
       const content = data.message?.content;
-      if (typeof content !== 'string') return null;
 
-      // Check for plan mode activation
-      if (content.includes('<system-reminder>') && content.includes('Plan mode is active')) {
-        return true;
+      if (data.type === 'user') {
+        if (typeof content === 'string') {
+          return content.startsWith('[Request interrupted') ? 'idle' : 'running';
+        }
+        if (!Array.isArray(content)) return null;
+
+        // A prompt, or a tool result Claude will carry on from
+        let continues = false;
+        for (const block of content) {
+          if (block.type === 'tool_result') {
+            session.pendingTools.delete(block.tool_use_id);
+            continues = true;
+          } else if (block.type === 'text') {
+            if (block.text?.startsWith('[Request interrupted')) {
+              session.pendingTools.clear();
+              return 'idle';
+            }
+            continues = true;
+          }
+        }
+        return continues ? 'running' : null;
       }
 
-      // Check for plan mode exit (ExitPlanMode was called)
-      if (content.includes('Exited Plan Mode') || content.includes('exited plan mode')) {
-        return false;
+      if (data.type === 'assistant' && Array.isArray(content)) {
+        for (const block of content) {
+          if (block.type === 'tool_use' && block.id) {
+            session.pendingTools.set(block.id, block.name);
+          }
+        }
+
+        const pending = [...session.pendingTools.values()];
+        if (pending.length > 0) {
+          // Still running unless every open tool call is a question for the user
+          return pending.every((name) => WAITING_TOOLS.has(name)) ? 'idle' : 'running';
+        }
+        const stopReason = data.message.stop_reason;
+        if (stopReason === 'tool_use') return 'running';
+        if (!content.some((block: any) => block.type === 'text')) return null;
+        return stopReason ? 'idle' : 'settling';
       }
 
       return null;
@@ -481,9 +1166,60 @@ export class SessionManager {
     }
   }
 
-  private extractToolCalls(line: string): ToolCallInfo[] {
+  private detectPlanMode(data: TranscriptEntry): boolean | null {
+    if (data.type !== 'user') return null;
+
+    const content = data.message?.content;
+    if (typeof content !== 'string') return null;
+
+    // Check for plan mode activation
+    if (content.includes('<system-reminder>') && content.includes('Plan mode is active')) {
+      return true;
+    }
+
+    // Check for plan mode exit (ExitPlanMode was called)
+    if (content.includes('Exited Plan Mode') || content.includes('exited plan mode')) {
+      return false;
+    }
+
+    return null;
+  }
+
+  private isBeforeStart(data: TranscriptEntry, session: InternalSession): boolean {
+    return typeof data.timestamp === 'string' && new Date(data.timestamp) < session.startedAt;
+  }
+
+  private extractUuid(data: TranscriptEntry): string | null {
+    return typeof data.uuid === 'string' ? data.uuid : null;
+  }
+
+  private extractTranscriptId(data: TranscriptEntry): string | null {
+    return typeof data.sessionId === 'string' ? data.sessionId : null;
+  }
+
+  private isCompactBoundary(data: TranscriptEntry): boolean {
+    return data.type === 'system' && data.subtype === 'compact_boundary';
+  }
+
+  private extractError(data: TranscriptEntry): string | null {
+    try {
+      if (data.type !== 'assistant' || !data.isApiErrorMessage) return null;
+
+      const content = data.message?.content;
+      const text = Array.isArray(content)
+        ? content
+            .filter((b: any) => b.type === 'text')
+            .map((b: any) => b.text)
+            .join('\n')
+        : '';
+      return text.trim() || 'API error';
+    } catch {
+      return null;
+    }
+  }
+
+  private extractToolCalls(data: TranscriptEntry): ToolCallInfo[] {
     try {
-      const data = JSON.parse(line);
       if (data.type !== 'assistant') return [];
 
       const content = data.message?.content;
@@ -505,9 +1241,8 @@ export class SessionManager {
     }
   }
 
-  private extractToolResults(line: string): ToolResultInfo[] {
+  private extractToolResults(data: TranscriptEntry): ToolResultInfo[] {
     try {
-      const data = JSON.parse(line);
       if (data.type !== 'user') return [];
 
       const content = data.message?.content;
@@ -540,21 +1275,15 @@ export class SessionManager {
     }
   }
 
-  private extractSlug(line: string): string | null {
-    try {
-      const data = JSON.parse(line);
-      if (data.slug && typeof data.slug === 'string') {
-        return data.slug;
-      }
-      return null;
-    } catch {
-      return null;
+  private extractSlug(data: TranscriptEntry): string | null {
+    if (data.slug && typeof data.slug === 'string') {
+      return data.slug;
     }
+    return null;
   }
 
-  private extractTodos(line: string): TodoItem[] | null {
+  private extractTodos(data: TranscriptEntry): TodoItem[] | null {
     try {
-      const data = JSON.parse(line);
       if (data.todos && Array.isArray(data.todos) && data.todos.length > 0) {
         return data.todos.map((t: any) => ({
           content: t.content || '',
@@ -568,12 +1297,10 @@ export class SessionManager {
     }
   }
 
-  private parseJsonlLine(line: string): ChatMessage | null {
+  private extractMessage(data: TranscriptEntry): ChatMessage | null {
     try {
-      const data = JSON.parse(line);
-
       if (data.type !== 'user' && data.type !== 'assistant') return null;
-      if (data.isMeta || data.subtype) return null;
+      if (data.isMeta || data.subtype || data.isCompactSummary) return null;
 
       const message = data.message;
       if (!message || !message.role) return null;
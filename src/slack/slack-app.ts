@@ -1,55 +1,44 @@
 import { App, LogLevel } from '@slack/bolt';
 import { createReadStream } from 'fs';
+import { basename } from 'path';
 import type { SlackConfig } from './types.js';
-import { SessionManager, type SessionInfo, type ToolCallInfo, type ToolResultInfo } from './session-manager.js';
+import { SessionManager } from './session-manager.js';
 import { ChannelManager } from './channel-manager.js';
-import {
-  markdownToSlack,
-  chunkMessage,
-  formatSessionStatus,
-  formatTodos,
-} from './message-formatter.js';
-import { extractImagePaths } from '../utils/image-extractor.js';
-
-// Rate-limited message queue to avoid Slack API limits
-class MessageQueue {
-  private queue: Array<() => Promise<any>> = [];
-  private processing = false;
-  private minDelay = 350; // ms between messages (Slack allows ~1/sec but be safe)
-
-  async add<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await fn();
-          resolve(result);
-        } catch (err) {
-          reject(err);
-        }
-      });
-      this.process();
-    });
-  }
-
-  private async process() {
-    if (this.processing) return;
-    this.processing = true;
-
-    while (this.queue.length > 0) {
-      const fn = this.queue.shift();
-      if (fn) {
-        await fn();
-        if (this.queue.length > 0) {
-          await new Promise((r) => setTimeout(r, this.minDelay));
-        }
-      }
-    }
-
-    this.processing = false;
-  }
+import { markdownToSlack, chunkMessage, formatSessionStatus } from './message-formatter.js';
+import { ChatRouter } from '../core/chat-router.js';
+import { SESSION_COMMANDS } from '../core/commands.js';
+import type { ChatAdapter, ChatAction, MessageRef } from '../core/chat-adapter.js';
+import { MessageQueue } from '../utils/message-queue.js';
+import { ACCESS_DENIED_MESSAGE, checkAccess, type AccessPolicy } from '../core/access.js';
+import { DEFAULT_NOTIFY_DELAY_MS } from '../core/notifications.js';
+import { DEFAULT_ARTIFACT_EXTENSIONS } from '../core/artifacts.js';
+import type { InboundFile } from '../utils/attachments.js';
+
+// Slack takes files up to 1 GB; larger uploads are slow and rarely wanted in chat
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+// Block Kit for a message with buttons (sections hold at most 3000 characters)
+function buildActionBlocks(text: string, actions: ChatAction[]) {
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: actions.map((action) => ({
+        type: 'button',
+        text: { type: 'plain_text', text: action.label },
+        action_id: action.id,
+        value: action.id,
+        ...(action.style ? { style: action.style } : {}),
+      })),
+    },
+  ];
 }
 
-export function createSlackApp(config: SlackConfig) {
+/**
+ * Pass a shared ChatRouter to run this bot alongside other platforms
+ * (see `afk-code serve`); by default the bot gets a router of its own.
+ */
+export function createSlackApp(config: SlackConfig, router = new ChatRouter(new SessionManager())) {
   const app = new App({
     token: config.botToken,
     appToken: config.appToken,
@@ -58,196 +47,211 @@ export function createSlackApp(config: SlackConfig) {
   });
 
   const channelManager = new ChannelManager(app.client, config.userId);
-  const messageQueue = new MessageQueue();
-
-  // Track messages sent from Slack to avoid re-posting them when they come back via JSONL
-  const slackSentMessages = new Set<string>();
-
-  // Create session manager with event handlers that post to Slack
-  const sessionManager = new SessionManager({
-    onSessionStart: async (session) => {
-      const channel = await channelManager.createChannel(session.id, session.name, session.cwd);
-      if (channel) {
-        // Post initial message to channel
-        await messageQueue.add(() =>
-          app.client.chat.postMessage({
-            channel: channel.channelId,
-            text: `${formatSessionStatus(session.status)} *Session started*\n\`${session.cwd}\``,
-            mrkdwn: true,
-          })
-        );
-      }
+  const messageQueue = new MessageQueue(350); // ms between messages (Slack allows ~1/sec but be safe)
+
+  // Only these users may send input or commands to sessions
+  const access: AccessPolicy = {
+    userIds: [config.userId, ...(config.allowedUserIds ?? [])],
+  };
+
+  // Terminal user's name and avatar, fetched once, so their messages are posted as them
+  let userIdentity: Promise<{ username: string; icon_url?: string }> | null = null;
+
+  function getUserIdentity() {
+    if (!userIdentity) {
+      userIdentity = app.client.users
+        .info({ user: config.userId })
+        .then((userInfo) => ({
+          username: userInfo.user?.real_name || userInfo.user?.name || 'User',
+          icon_url: userInfo.user?.profile?.image_72,
+        }))
+        .catch((err) => {
+          console.error('[Slack] Failed to fetch user profile:', err);
+          userIdentity = null;
+          return { username: 'User' };
+        });
+    }
+    return userIdentity;
+  }
+
+  // Channel topic shows the session name and whether Claude is working or waiting
+  async function updateTopic(sessionId: string) {
+    const channel = channelManager.getChannel(sessionId);
+    if (!channel) return;
+
+    try {
+      await app.client.conversations.setTopic({
+        channel: channel.channelId,
+        topic: `${formatSessionStatus(channel.status)} | Claude Code session: ${channel.sessionName}`,
+      });
+    } catch (err) {
+      console.error('[Slack] Failed to update channel topic:', err);
+    }
+  }
+
+  const adapter: ChatAdapter = {
+    name: 'Slack',
+    toolCalls: config.toolCalls ?? { verbosity: 'off', include: [], exclude: [] },
+    announceCompletedTodos: config.announceCompletedTodos ?? false,
+    streamReplies: config.streamReplies ?? false,
+    artifacts: config.artifacts ?? { extensions: DEFAULT_ARTIFACT_EXTENSIONS, maxBytes: MAX_UPLOAD_BYTES, roots: [] },
+    editIntervalMs: 3000, // chat.update is limited to about 50 calls a minute
+    notifications: config.notifications ?? { delayMs: DEFAULT_NOTIFY_DELAY_MS },
+
+    async openSession(session) {
+      await channelManager.createChannel(session.id, session.name, session.cwd);
     },
 
-    onSessionEnd: async (sessionId) => {
+    async closeSession(sessionId) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateStatus(sessionId, 'ended');
+      if (!channel) return;
 
-        // Post final message
-        await messageQueue.add(() =>
-          app.client.chat.postMessage({
-            channel: channel.channelId,
-            text: ':stop_sign: *Session ended* - this channel will be archived',
-          })
-        );
+      channelManager.updateStatus(sessionId, 'ended');
 
-        // Archive the channel
-        await channelManager.archiveChannel(sessionId);
-      }
+      // Post final message
+      await messageQueue.add(() =>
+        app.client.chat.postMessage({
+          channel: channel.channelId,
+          text: ':stop_sign: *Session ended* - this channel will be archived',
+        })
+      );
+
+      // Archive the channel
+      await channelManager.archiveChannel(sessionId);
     },
 
-    onSessionUpdate: async (sessionId, name) => {
+    async renameSession(sessionId, name) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateName(sessionId, name);
-        // Update channel topic with new name
-        try {
-          await app.client.conversations.setTopic({
-            channel: channel.channelId,
-            topic: `Claude Code session: ${name}`,
-          });
-        } catch (err) {
-          console.error('[Slack] Failed to update channel topic:', err);
-        }
-      }
+      if (!channel) return;
+
+      channelManager.updateName(sessionId, name);
+      await updateTopic(sessionId);
     },
 
-    onSessionStatus: async (sessionId, status) => {
+    async setStatus(sessionId, status) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        channelManager.updateStatus(sessionId, status);
-      }
+      if (!channel || channel.status === status) return;
+
+      channelManager.updateStatus(sessionId, status);
+      await updateTopic(sessionId);
     },
 
-    onMessage: async (sessionId, role, content) => {
+    async send(sessionId, markdown, options = {}) {
       const channel = channelManager.getChannel(sessionId);
-      if (channel) {
-        const formatted = markdownToSlack(content);
-
-        if (role === 'user') {
-          // Skip messages that originated from Slack (already visible in channel)
-          const contentKey = content.trim();
-          if (slackSentMessages.has(contentKey)) {
-            slackSentMessages.delete(contentKey);
-            return;
-          }
-
-          // User message from terminal - post as the user (using their name/avatar)
-          const chunks = chunkMessage(formatted);
-          for (const chunk of chunks) {
-            try {
-              // Fetch user profile to get their name and avatar
-              const userInfo = await app.client.users.info({ user: config.userId });
-              const userName = userInfo.user?.real_name || userInfo.user?.name || 'User';
-              const userIcon = userInfo.user?.profile?.image_72;
-
-              await messageQueue.add(() =>
-                app.client.chat.postMessage({
-                  channel: channel.channelId,
-                  text: chunk,
-                  username: userName,
-                  icon_url: userIcon,
-                  mrkdwn: true,
-                })
-              );
-            } catch (err) {
-              console.error('[Slack] Failed to post message:', err);
-            }
-          }
-        } else {
-          // Claude's response - post as "Claude Code"
-          const chunks = chunkMessage(formatted);
-          for (const chunk of chunks) {
-            try {
-              await messageQueue.add(() =>
-                app.client.chat.postMessage({
-                  channel: channel.channelId,
-                  text: chunk,
-                  username: 'Claude Code',
-                  icon_url: 'https://claude.ai/favicon.ico',
-                  mrkdwn: true,
-                })
-              );
-            } catch (err) {
-              console.error('[Slack] Failed to post message:', err);
-            }
-          }
-
-          // Extract and upload any images mentioned in the response
-          const session = sessionManager.getSession(sessionId);
-          const images = extractImagePaths(content, session?.cwd);
-          for (const image of images) {
-            try {
-              console.log(`[Slack] Uploading image: ${image.resolvedPath}`);
-              await messageQueue.add(() =>
-                app.client.files.uploadV2({
-                  channel_id: channel.channelId,
-                  file: createReadStream(image.resolvedPath),
-                  filename: image.resolvedPath.split('/').pop() || 'image',
-                  initial_comment: `📎 ${image.originalPath}`,
-                })
-              );
-            } catch (err) {
-              console.error('[Slack] Failed to upload image:', err);
-            }
-          }
-        }
+      if (!channel) return null;
+
+      // User messages from the terminal are posted as the user (name/avatar),
+      // Claude's responses as "Claude Code"
+      let identity: { username?: string; icon_url?: string } = {};
+      if (options.author === 'user') {
+        identity = await getUserIdentity();
+      } else if (options.author === 'assistant') {
+        identity = { username: 'Claude Code', icon_url: 'https://claude.ai/favicon.ico' };
       }
-    },
 
-    onTodos: async (sessionId, todos) => {
-      const channel = channelManager.getChannel(sessionId);
-      if (channel && todos.length > 0) {
-        const todosText = formatTodos(todos);
-        try {
-          await messageQueue.add(() =>
-            app.client.chat.postMessage({
-              channel: channel.channelId,
-              text: `*Tasks:*\n${todosText}`,
-              mrkdwn: true,
-            })
-          );
-        } catch (err) {
-          console.error('[Slack] Failed to post todos:', err);
+      // Buttons need Block Kit, whose sections hold at most 3000 characters
+      const chunks = options.actions
+        ? chunkMessage(markdownToSlack(markdown), 3000)
+        : chunkMessage(markdownToSlack(markdown));
+
+      let ref: MessageRef | null = null;
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        const blocks = options.actions && i === chunks.length - 1 ? buildActionBlocks(chunk, options.actions) : undefined;
+
+        const result = await messageQueue.add(() =>
+          app.client.chat.postMessage({
+            channel: channel.channelId,
+            text: chunk,
+            blocks,
+            thread_ts: options.replyTo?.messageId,
+            mrkdwn: true,
+            ...identity,
+          })
+        );
+        if (result.ts) {
+          ref = { sessionId, channelId: channel.channelId, messageId: result.ts };
         }
       }
+      return ref;
     },
 
-    onToolCall: async (_sessionId, _tool) => {
-      // Disabled for now to reduce message volume
+    async edit(ref, markdown, actions) {
+      const text = markdownToSlack(markdown);
+      await messageQueue.add(() =>
+        app.client.chat.update({
+          channel: ref.channelId,
+          ts: ref.messageId,
+          text,
+          blocks: actions ? buildActionBlocks(text.slice(0, 3000), actions) : [], // No blocks removes the buttons
+        })
+      );
     },
 
-    onToolResult: async (_sessionId, _result) => {
-      // Disabled for now to reduce message volume
+    async remove(ref) {
+      await messageQueue.add(() => app.client.chat.delete({ channel: ref.channelId, ts: ref.messageId }));
     },
 
-    onPlanModeChange: async (sessionId, inPlanMode) => {
+    async pin(ref) {
+      await messageQueue.add(() => app.client.pins.add({ channel: ref.channelId, timestamp: ref.messageId }));
+    },
+
+    async unpin(ref) {
+      await messageQueue.add(() => app.client.pins.remove({ channel: ref.channelId, timestamp: ref.messageId }));
+    },
+
+    async notify(sessionId, markdown) {
       const channel = channelManager.getChannel(sessionId);
       if (!channel) return;
 
-      const emoji = inPlanMode ? ':clipboard:' : ':hammer:';
-      const status = inPlanMode ? 'Planning mode - Claude is designing a solution' : 'Execution mode - Claude is implementing';
+      // Only @mentions alert the user; other posts follow their channel settings
+      await messageQueue.add(() =>
+        app.client.chat.postMessage({
+          channel: channel.channelId,
+          text: `<@${config.userId}> ${markdownToSlack(markdown)}`,
+          mrkdwn: true,
+        })
+      );
+    },
 
-      try {
-        await messageQueue.add(() =>
-          app.client.chat.postMessage({
-            channel: channel.channelId,
-            text: `${emoji} ${status}`,
-            mrkdwn: true,
-          })
-        );
-      } catch (err) {
-        console.error('[Slack] Failed to post plan mode change:', err);
-      }
+    async upload(sessionId, filePath, caption) {
+      const channel = channelManager.getChannel(sessionId);
+      if (!channel) return;
+
+      await messageQueue.add(() =>
+        app.client.files.uploadV2({
+          channel_id: channel.channelId,
+          file: createReadStream(filePath),
+          filename: basename(filePath),
+          initial_comment: caption,
+        })
+      );
     },
-  });
+
+    async uploadAlbum(sessionId, files) {
+      const channel = channelManager.getChannel(sessionId);
+      if (!channel) return;
+
+      // One message, with the images side by side
+      await messageQueue.add(() =>
+        app.client.files.uploadV2({
+          channel_id: channel.channelId,
+          file_uploads: files.map((file) => ({ file: createReadStream(file.filePath), filename: basename(file.filePath) })),
+          initial_comment: files.map((file) => file.caption).filter(Boolean).join('\n') || undefined,
+        })
+      );
+    },
+  };
+
+  router.addAdapter(adapter);
 
   // Handle messages in session channels (user sending input to Claude)
   app.message(async ({ message, say }) => {
-    // Type guard for regular messages
-    if ('subtype' in message && message.subtype) return;
-    if (!('text' in message) || !message.text) return;
+    // Type guard for regular messages (and ones with files attached)
+    if ('subtype' in message && message.subtype && message.subtype !== 'file_share') return;
+    const text = ('text' in message && message.text) || '';
+    const files = ('files' in message && message.files) || [];
+    if (!text && files.length === 0) return;
     if (!('channel' in message) || !message.channel) return;
 
     // Ignore bot's own messages
@@ -259,21 +263,51 @@ export function createSlackApp(config: SlackConfig) {
     const sessionId = channelManager.getSessionByChannel(message.channel);
     if (!sessionId) return; // Not a session channel
 
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await say(':warning: This session has ended.');
+    const userId = 'user' in message ? message.user : undefined;
+    if (!checkAccess('Slack', access, userId, [], `input to session ${sessionId}`)) {
+      if (userId) {
+        await app.client.chat.postEphemeral({
+          channel: message.channel,
+          user: userId,
+          text: markdownToSlack(ACCESS_DENIED_MESSAGE),
+        });
+      }
       return;
     }
 
-    console.log(`[Slack] Sending input to session ${sessionId}: ${message.text.slice(0, 50)}...`);
+    // Files are downloaded with the bot token (needs the files:read scope)
+    const inbound: InboundFile[] = files
+      .filter((file) => file.url_private_download)
+      .map((file) => ({
+        name: file.name || 'file',
+        url: file.url_private_download!,
+        size: file.size,
+        headers: { Authorization: `Bearer ${config.botToken}` },
+      }));
+
+    const warning =
+      inbound.length > 0
+        ? await router.handleInputWithFiles(adapter, sessionId, text, inbound)
+        : router.handleInput(adapter, sessionId, text);
+    if (warning) {
+      await say(markdownToSlack(warning));
+    }
+  });
 
-    // Track this message so we don't re-post it when it comes back via JSONL
-    slackSentMessages.add(message.text.trim());
+  // Button clicks (permission prompts and other questions)
+  app.action(/^afk:/, async ({ ack, body, action, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !('action_id' in action)) return;
+
+    if (!checkAccess('Slack', access, body.user.id, [], `button ${action.action_id}`)) {
+      await respond({ text: markdownToSlack(ACCESS_DENIED_MESSAGE), response_type: 'ephemeral', replace_original: false });
+      return;
+    }
 
-    const sent = sessionManager.sendInput(sessionId, message.text);
-    if (!sent) {
-      slackSentMessages.delete(message.text.trim());
-      await say(':warning: Failed to send input - session not connected.');
+    const userName = 'name' in body.user ? body.user.name : body.user.id;
+    const warning = router.handleAction(adapter, action.action_id, userName);
+    if (warning) {
+      await respond({ text: markdownToSlack(warning), response_type: 'ephemeral', replace_original: false });
     }
   });
 
@@ -281,6 +315,11 @@ export function createSlackApp(config: SlackConfig) {
   app.command('/sessions', async ({ command, ack, respond }) => {
     await ack();
 
+    if (!checkAccess('Slack', access, command.user_id, [], '/sessions')) {
+      await respond(markdownToSlack(ACCESS_DENIED_MESSAGE));
+      return;
+    }
+
     const subcommand = command.text.trim().split(' ')[0];
 
     if (subcommand === 'sessions' || !subcommand) {
@@ -303,134 +342,21 @@ export function createSlackApp(config: SlackConfig) {
     }
   });
 
-  // Slash command: /background - Send Ctrl+B to put Claude in background mode
-  app.command('/background', async ({ command, ack, respond }) => {
-    await ack();
-
-    const sessionId = channelManager.getSessionByChannel(command.channel_id);
-    if (!sessionId) {
-      await respond(':warning: This channel is not associated with an active session.');
-      return;
-    }
-
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await respond(':warning: This session has ended.');
-      return;
-    }
-
-    // Send Ctrl+B (ASCII 2)
-    const sent = sessionManager.sendInput(sessionId, '\x02');
-    if (sent) {
-      await respond(':arrow_heading_down: Sent background command (Ctrl+B)');
-    } else {
-      await respond(':warning: Failed to send command - session not connected.');
-    }
-  });
-
-  // Slash command: /interrupt - Send Escape to interrupt Claude
-  app.command('/interrupt', async ({ command, ack, respond }) => {
-    await ack();
-
-    const sessionId = channelManager.getSessionByChannel(command.channel_id);
-    if (!sessionId) {
-      await respond(':warning: This channel is not associated with an active session.');
-      return;
-    }
-
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await respond(':warning: This session has ended.');
-      return;
-    }
-
-    // Send Escape (ASCII 27)
-    const sent = sessionManager.sendInput(sessionId, '\x1b');
-    if (sent) {
-      await respond(':stop_sign: Sent interrupt (Escape)');
-    } else {
-      await respond(':warning: Failed to send command - session not connected.');
-    }
-  });
-
-  // Slash command: /mode - Send Shift+Tab to toggle mode
-  app.command('/mode', async ({ command, ack, respond }) => {
-    await ack();
-
-    const sessionId = channelManager.getSessionByChannel(command.channel_id);
-    if (!sessionId) {
-      await respond(':warning: This channel is not associated with an active session.');
-      return;
-    }
-
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await respond(':warning: This session has ended.');
-      return;
-    }
-
-    // Send Shift+Tab (ESC [ Z)
-    const sent = sessionManager.sendInput(sessionId, '\x1b[Z');
-    if (sent) {
-      await respond(':arrows_counterclockwise: Sent mode toggle (Shift+Tab)');
-    } else {
-      await respond(':warning: Failed to send command - session not connected.');
-    }
-  });
-
-  // Slash command: /compact - Send /compact to compact the conversation
-  app.command('/compact', async ({ command, ack, respond }) => {
-    await ack();
-
-    const sessionId = channelManager.getSessionByChannel(command.channel_id);
-    if (!sessionId) {
-      await respond(':warning: This channel is not associated with an active session.');
-      return;
-    }
-
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await respond(':warning: This session has ended.');
-      return;
-    }
+  // Session slash commands: /background, /interrupt, /mode, /compact, /model, /verbose
+  for (const sessionCommand of SESSION_COMMANDS) {
+    app.command(`/${sessionCommand.name}`, async ({ command, ack, respond }) => {
+      await ack();
 
-    const sent = sessionManager.sendInput(sessionId, '/compact\n');
-    if (sent) {
-      await respond(':compression: Sent /compact');
-    } else {
-      await respond(':warning: Failed to send command - session not connected.');
-    }
-  });
-
-  // Slash command: /model - Switch Claude model
-  app.command('/model', async ({ command, ack, respond }) => {
-    await ack();
-
-    const sessionId = channelManager.getSessionByChannel(command.channel_id);
-    if (!sessionId) {
-      await respond(':warning: This channel is not associated with an active session.');
-      return;
-    }
-
-    const channel = channelManager.getChannel(sessionId);
-    if (!channel || channel.status === 'ended') {
-      await respond(':warning: This session has ended.');
-      return;
-    }
-
-    const modelArg = command.text.trim();
-    if (!modelArg) {
-      await respond('Usage: `/model <opus|sonnet|haiku>`');
-      return;
-    }
+      const sessionId = channelManager.getSessionByChannel(command.channel_id);
+      if (!checkAccess('Slack', access, command.user_id, [], `/${sessionCommand.name} in session ${sessionId}`)) {
+        await respond(markdownToSlack(ACCESS_DENIED_MESSAGE));
+        return;
+      }
 
-    const sent = sessionManager.sendInput(sessionId, `/model ${modelArg}\n`);
-    if (sent) {
-      await respond(`:brain: Sent /model ${modelArg}`);
-    } else {
-      await respond(':warning: Failed to send command - session not connected.');
-    }
-  });
+      const reply = router.runCommand(adapter, sessionId, sessionCommand.name, command.text);
+      await respond(markdownToSlack(reply));
+    });
+  }
 
   // App Home tab
   app.event('app_home_opened', async ({ event, client }) => {
@@ -477,5 +403,5 @@ export function createSlackApp(config: SlackConfig) {
     }
   });
 
-  return { app, sessionManager, channelManager };
+  return { app, sessionManager: router.sessionManager, channelManager, adapter };
 }
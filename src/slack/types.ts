@@ -1,6 +1,16 @@
+import type { NotificationPolicy } from '../core/notifications.js';
+import type { ToolCallPolicy } from '../core/tool-calls.js';
+import type { ArtifactPolicy } from '../core/artifacts.js';
+
 export interface SlackConfig {
   botToken: string;
   appToken: string;
   signingSecret: string;
-  userId: string; // User to auto-invite to channels
+  userId: string; // User to auto-invite to channels (always allowed to send input)
+  allowedUserIds?: string[]; // Other users allowed to send input and commands
+  notifications?: NotificationPolicy; // When to @mention userId (quiet hours, delay)
+  toolCalls?: ToolCallPolicy; // Which tool calls to post (default: off)
+  announceCompletedTodos?: boolean; // Post a line whenever a todo item is completed
+  streamReplies?: boolean; // Edit Claude's replies into place as they are written
+  artifacts?: ArtifactPolicy; // Which files Claude mentions are uploaded (default: images, PDFs, reports, logs)
 }
@@ -0,0 +1,168 @@
+import { parseMarkdown, formatTextTable, formatListItem, type Block, type Inline } from '../utils/markdown.js';
+
+// Link targets Telegram accepts; anything else (e.g. a relative path) is shown as text
+const LINK_URL_PATTERN = /^(?:https?|mailto|tg):/i;
+
+const TAG_PATTERN = /<(\/?)([a-z-]+)[^>]*>/g;
+
+/**
+ * Escape text for Telegram HTML, where only &, < and > (and " in attributes) are special
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// `bold` is set inside headings, which are bold already
+function inlineToHtml(nodes: Inline[], bold = false): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'break':
+          return '\n';
+        case 'strong':
+          return bold ? inlineToHtml(node.children, bold) : `<b>${inlineToHtml(node.children, true)}</b>`;
+        case 'emphasis':
+          return `<i>${inlineToHtml(node.children, bold)}</i>`;
+        case 'strike':
+          return `<s>${inlineToHtml(node.children, bold)}</s>`;
+        case 'link': {
+          const label = inlineToHtml(node.children, bold);
+          if (!LINK_URL_PATTERN.test(node.url)) {
+            return label === escapeHtml(node.url) ? label : `${label} (${escapeHtml(node.url)})`;
+          }
+          return `<a href="${escapeHtml(node.url)}">${label || escapeHtml(node.url)}</a>`;
+        }
+      }
+    })
+    .join('');
+}
+
+// List items' blocks are joined by single newlines, keeping lists compact
+function blocksToHtml(blocks: Block[], depth = 0, separator = '\n\n'): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineToHtml(block.children);
+        case 'heading':
+          return `<b>${inlineToHtml(block.children, true)}</b>`;
+        case 'code': {
+          // The language hint lets Telegram apps highlight the code
+          const lang = block.lang.replace(/[^\w+-]/g, '');
+          const code = escapeHtml(block.text);
+          return lang ? `<pre><code class="language-${lang}">${code}</code></pre>` : `<pre>${code}</pre>`;
+        }
+        case 'table':
+          return `<pre>${escapeHtml(formatTextTable(block))}</pre>`;
+        case 'quote':
+          return `<blockquote>${blocksToHtml(block.children, depth)}</blockquote>`;
+        case 'rule':
+          return '──────────';
+        case 'list':
+          return block.items
+            .map((item, n) => formatListItem(block, n, depth, blocksToHtml(item.children, depth + 1, '\n')))
+            .join('\n');
+      }
+    })
+    .join(separator);
+}
+
+/**
+ * Convert GitHub-flavored markdown to Telegram HTML (for `parse_mode: 'HTML'`)
+ */
+export function markdownToTelegram(markdown: string): string {
+  return blocksToHtml(parseMarkdown(markdown));
+}
+
+/**
+ * Text of Telegram HTML without its tags, for when Telegram won't take the formatting
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(TAG_PATTERN, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+function tagName(openingTag: string): string {
+  return /^<([a-z-]+)/.exec(openingTag)![1];
+}
+
+// Apply the tags in `html` to the stack of tags left open (opening tags, innermost last)
+function updateOpenTags(open: string[], html: string): void {
+  for (const [tag, closing, name] of html.matchAll(TAG_PATTERN)) {
+    if (!closing) {
+      open.push(tag);
+      continue;
+    }
+    const at = open.map(tagName).lastIndexOf(name);
+    if (at !== -1) open.splice(at, 1);
+  }
+}
+
+function closeTags(open: string[]): string {
+  return [...open]
+    .reverse()
+    .map((tag) => `</${tagName(tag)}>`)
+    .join('');
+}
+
+/**
+ * Break HTML into pieces that can end a chunk: whole lines, or for lines that
+ * are too long, tags, entities and words (and slices of words that are too long -
+ * tags and entities are never cut, however long)
+ */
+function htmlPieces(html: string, maxPiece: number): string[] {
+  const pieces: string[] = [];
+  for (const line of html.split(/(?<=\n)/)) {
+    if (line.length <= maxPiece) {
+      pieces.push(line);
+      continue;
+    }
+    for (const token of line.match(/<[^>]*>|&[#\w]+;|\s+|[^<&\s]+/g) ?? []) {
+      if (token[0] === '<' || token[0] === '&') {
+        pieces.push(token);
+        continue;
+      }
+      for (let i = 0; i < token.length; i += maxPiece) {
+        pieces.push(token.slice(i, i + maxPiece));
+      }
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Split Telegram HTML into messages of at most `maxLength` characters. A
+ * chunk that ends inside formatting (e.g. a code block) closes its tags, and
+ * the next chunk opens them again, so every chunk is valid on its own.
+ */
+export function chunkHtml(html: string, maxLength: number): string[] {
+  if (html.length <= maxLength) return [html];
+
+  const chunks: string[] = [];
+  const open: string[] = [];
+  let current = '';
+
+  for (const piece of htmlPieces(html, Math.floor(maxLength / 2))) {
+    const after = [...open];
+    updateOpenTags(after, piece);
+
+    if (current && current.length + piece.length + closeTags(after).length > maxLength) {
+      chunks.push(current + closeTags(open));
+      current = open.join('');
+    }
+    current += piece;
+    open.splice(0, open.length, ...after);
+  }
+  chunks.push(current + closeTags(open));
+
+  // A chunk of nothing but tags and whitespace can't be sent
+  return chunks.filter((chunk) => htmlToText(chunk).trim());
+}
@@ -1,175 +1,300 @@
-import { Bot, Context } from 'grammy';
+import { Bot, Context, InputFile, InputMediaBuilder, InlineKeyboard } from 'grammy';
+import { rm, stat } from 'fs/promises';
+import { basename, extname } from 'path';
 import type { TelegramConfig } from './types.js';
-import { SessionManager, type SessionInfo } from '../slack/session-manager.js';
-import { chunkMessage, formatTodos } from '../slack/message-formatter.js';
+import { SessionManager } from '../slack/session-manager.js';
+import { formatSessionStatus } from '../slack/message-formatter.js';
+import { markdownToTelegram, chunkHtml, escapeHtml, htmlToText } from './message-formatter.js';
+import { ChatRouter } from '../core/chat-router.js';
+import { SESSION_COMMANDS, findSessionCommand } from '../core/commands.js';
+import type { ChatAction, ChatAdapter, MessageRef, SendOptions, SessionStatus } from '../core/chat-adapter.js';
+import { MessageQueue } from '../utils/message-queue.js';
+import { DEFAULT_NOTIFY_DELAY_MS } from '../core/notifications.js';
+import { DEFAULT_ARTIFACT_EXTENSIONS } from '../core/artifacts.js';
+import { downloadAttachment, type InboundFile } from '../utils/attachments.js';
+import { commandTranscriber, DEFAULT_TRANSCRIBE_COMMAND } from '../utils/transcription.js';
+import { JsonStore } from '../utils/json-store.js';
+
+// Bots can upload files up to 50 MB
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
 
 // Telegram has a 4096 character limit per message
 const MAX_MESSAGE_LENGTH = 4000;
 
+// Sent with sendPhoto so they show inline (up to its 10 MB limit); anything else goes as a document
+const PHOTO_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp']);
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+// Most photos one media group can hold
+const MAX_ALBUM_SIZE = 10;
+
+// One button per row, so long labels stay readable
+function buildKeyboard(actions: ChatAction[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const action of actions) {
+    keyboard.text(action.label, action.id).row();
+  }
+  return keyboard;
+}
+
+// All sessions share one chat, so label who is speaking
+function authorPrefix(author?: SendOptions['author'], origin?: string): string {
+  if (author === 'user') return `<i>User (${escapeHtml(origin ?? 'terminal')}):</i> `;
+  if (author === 'assistant') return '<i>Claude Code:</i> ';
+  return '';
+}
+
+// Telegram's error for formatting it can't parse, e.g. "can't parse entities"
+function isParseError(err: any): boolean {
+  return Boolean(err.message?.includes('parse'));
+}
+
+async function replyMarkdown(ctx: Context, markdown: string) {
+  await ctx.reply(markdownToTelegram(markdown), { parse_mode: 'HTML' });
+}
+
 interface SessionTracking {
   sessionId: string;
   sessionName: string;
+  status: SessionStatus;
   lastActivity: Date;
 }
 
-export function createTelegramApp(config: TelegramConfig) {
+// Saved so sessions, the selected session and the pinned status message survive a restart
+interface SavedState {
+  sessions: SessionTracking[];
+  currentSessionId: string | null;
+  statusMessageId: number | null;
+}
+
+/**
+ * Pass a shared ChatRouter to run this bot alongside other platforms
+ * (see `afk-code serve`); by default the bot gets a router of its own.
+ */
+export function createTelegramApp(config: TelegramConfig, router = new ChatRouter(new SessionManager())) {
   const bot = new Bot(config.botToken);
 
-  const activeSessions = new Map<string, SessionTracking>();
-  const telegramSentMessages = new Set<string>();
-  let currentSessionId: string | null = null; // Explicitly selected session
+  const store = new JsonStore<SavedState>('telegram-sessions.json');
+  const saved = store.load({ sessions: [], currentSessionId: null, statusMessageId: null });
 
-  // Message queue for rate limiting (Telegram allows ~30 msg/sec but be conservative)
-  const messageQueue: Array<() => Promise<void>> = [];
-  let processingQueue = false;
-
-  async function processQueue() {
-    if (processingQueue) return;
-    processingQueue = true;
-
-    while (messageQueue.length > 0) {
-      const fn = messageQueue.shift();
-      if (fn) {
-        try {
-          await fn();
-        } catch (err) {
-          console.error('[Telegram] Error sending message:', err);
-        }
-        if (messageQueue.length > 0) {
-          await new Promise((r) => setTimeout(r, 100));
-        }
-      }
-    }
+  const activeSessions = new Map<string, SessionTracking>(
+    saved.sessions.map((s) => [s.sessionId, { ...s, lastActivity: new Date(s.lastActivity) }])
+  );
+  let currentSessionId: string | null = saved.currentSessionId; // Explicitly selected session
 
-    processingQueue = false;
+  function persist() {
+    store.save({ sessions: Array.from(activeSessions.values()), currentSessionId, statusMessageId });
   }
 
+  // Message queue for rate limiting (Telegram allows ~30 msg/sec but be conservative)
+  const messageQueue = new MessageQueue(100);
+
+  /**
+   * Send Telegram HTML. Messages are silent unless `disable_notification: false`
+   * is passed (see adapter.notify).
+   */
   async function sendMessage(
-    text: string,
-    parseMode: 'Markdown' | 'HTML' | undefined = 'Markdown',
-    options?: { disable_notification?: boolean }
+    html: string,
+    options?: { disable_notification?: boolean; reply_to_message_id?: number; reply_markup?: InlineKeyboard }
   ) {
-    messageQueue.push(async () => {
+    const sendOptions = { disable_notification: true, ...options };
+    return messageQueue.add(async () => {
       try {
-        await bot.api.sendMessage(config.chatId, text, {
-          parse_mode: parseMode,
-          disable_notification: options?.disable_notification,
-        });
+        return await bot.api.sendMessage(config.chatId, html, { parse_mode: 'HTML', ...sendOptions });
       } catch (err: any) {
-        // If markdown fails, try without formatting
-        if (parseMode && err.message?.includes('parse')) {
-          await bot.api.sendMessage(config.chatId, text, {
-            disable_notification: options?.disable_notification,
-          });
-        } else {
-          throw err;
-        }
+        if (!isParseError(err)) throw err;
+        // Shouldn't happen with rendered Markdown, so say so rather than quietly losing the formatting
+        console.error(`[Telegram] Message formatting was rejected (${err.message}) - sending it as plain text`);
+        return bot.api.sendMessage(config.chatId, htmlToText(html), sendOptions);
       }
     });
-    processQueue();
   }
 
-  async function sendChunkedMessage(
-    text: string,
-    prefix?: string,
-    options?: { disable_notification?: boolean }
-  ) {
-    const chunks = chunkMessage(text, MAX_MESSAGE_LENGTH);
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = prefix && i === 0 ? `${prefix} ${chunks[i]}` : chunks[i];
-      await sendMessage(chunk, 'Markdown', options);
+  // Replace a message's text with Telegram HTML (and its buttons, removed unless given)
+  async function editMessage(chatId: string, messageId: number, html: string, reply_markup?: InlineKeyboard) {
+    await messageQueue.add(async () => {
+      try {
+        await bot.api.editMessageText(chatId, messageId, html, { parse_mode: 'HTML', reply_markup });
+      } catch (err: any) {
+        if (!isParseError(err)) throw err;
+        console.error(`[Telegram] Message formatting was rejected (${err.message}) - editing it as plain text`);
+        await bot.api.editMessageText(chatId, messageId, htmlToText(html), { reply_markup });
+      }
+    });
+  }
+
+  // A pinned message lists every session and its status, edited as they change
+  let statusMessageId: number | null = saved.statusMessageId;
+
+  async function updatePinnedStatus() {
+    const lines = Array.from(activeSessions.values()).map(
+      (s) => `${formatSessionStatus(s.status)} - ${escapeHtml(s.sessionName)}`
+    );
+    const text = `<b>Sessions</b>\n${lines.length > 0 ? lines.join('\n') : 'No active sessions'}`;
+
+    try {
+      if (statusMessageId === null) {
+        const message = await sendMessage(text);
+        statusMessageId = message.message_id;
+        persist();
+        await bot.api.pinChatMessage(config.chatId, statusMessageId, { disable_notification: true });
+        return;
+      }
+
+      await editMessage(config.chatId, statusMessageId, text);
+    } catch (err: any) {
+      if (!err.message?.includes('message is not modified')) {
+        console.error('[Telegram] Failed to update pinned status:', err.message);
+      }
     }
   }
 
-  // Create session manager with Telegram event handlers
-  const sessionManager = new SessionManager({
-    onSessionStart: async (session) => {
+  // Voice messages are transcribed with the local whisper.cpp command unless configured otherwise
+  const transcriber =
+    config.transcriber === undefined ? commandTranscriber(DEFAULT_TRANSCRIBE_COMMAND) : config.transcriber;
+
+  const adapter: ChatAdapter = {
+    name: 'Telegram',
+    toolCalls: config.toolCalls ?? { verbosity: 'off', include: [], exclude: [] },
+    announceCompletedTodos: config.announceCompletedTodos ?? false,
+    streamReplies: config.streamReplies ?? false,
+    artifacts: config.artifacts ?? { extensions: DEFAULT_ARTIFACT_EXTENSIONS, maxBytes: MAX_UPLOAD_BYTES, roots: [] },
+    editIntervalMs: 3000, // Bots may send about 20 messages (edits included) a minute to a group
+    notifications: config.notifications ?? { delayMs: DEFAULT_NOTIFY_DELAY_MS },
+
+    async openSession(session) {
       activeSessions.set(session.id, {
         sessionId: session.id,
         sessionName: session.name,
+        status: session.status,
         lastActivity: new Date(),
       });
-
-      // Format command name: "claude --foo --bar" → "claude (foo, bar)"
-      const parts = session.name.split(' ');
-      const cmd = parts[0];
-      const args = parts.slice(1).map((a) => a.replace(/^-+/, ''));
-      const sessionLabel = args.length > 0 ? `${cmd} (${args.join(', ')})` : cmd;
-
-      await sendMessage(
-        `Session started: ${sessionLabel}\n` + `Directory: \`${session.cwd}\``
-      );
+      persist();
+      await updatePinnedStatus();
     },
 
-    onSessionEnd: async (sessionId) => {
+    async closeSession(sessionId) {
       const tracking = activeSessions.get(sessionId);
       const name = tracking?.sessionName || sessionId;
 
       activeSessions.delete(sessionId);
+      persist();
 
-      await sendMessage(`Session ended: ${name}`);
+      await sendMessage(`Session ended: ${escapeHtml(name)}`);
+      await updatePinnedStatus();
     },
 
-    onSessionUpdate: async (sessionId, name) => {
+    async renameSession(sessionId, name) {
       const tracking = activeSessions.get(sessionId);
       if (tracking) {
         tracking.sessionName = name;
         tracking.lastActivity = new Date();
+        persist();
+        await updatePinnedStatus();
       }
     },
 
-    onSessionStatus: async (sessionId, _status) => {
+    async setStatus(sessionId, status) {
       const tracking = activeSessions.get(sessionId);
-      if (tracking) {
-        tracking.lastActivity = new Date();
-      }
+      if (!tracking || tracking.status === status) return;
+
+      tracking.status = status;
+      tracking.lastActivity = new Date();
+      persist();
+      await updatePinnedStatus();
     },
 
-    onMessage: async (sessionId, role, content) => {
+    async send(sessionId, markdown, options = {}) {
       const tracking = activeSessions.get(sessionId);
-      if (!tracking) return;
+      if (!tracking) return null;
 
       tracking.lastActivity = new Date();
 
-      if (role === 'user') {
-        const contentKey = content.trim();
-        if (telegramSentMessages.has(contentKey)) {
-          telegramSentMessages.delete(contentKey);
-          return;
-        }
-        await sendChunkedMessage(content, `_User (terminal):_`, { disable_notification: true });
-      } else {
-        await sendChunkedMessage(content, `_Claude Code:_`);
+      const prefix = authorPrefix(options.author, options.origin);
+
+      let ref: MessageRef | null = null;
+      const chunks = chunkHtml(markdownToTelegram(markdown), MAX_MESSAGE_LENGTH - prefix.length);
+      for (let i = 0; i < chunks.length; i++) {
+        const message = await sendMessage(i === 0 ? `${prefix}${chunks[i]}` : chunks[i], {
+          reply_to_message_id: options.replyTo ? Number(options.replyTo.messageId) : undefined,
+          reply_markup: options.actions && i === chunks.length - 1 ? buildKeyboard(options.actions) : undefined,
+        });
+        ref = { sessionId, channelId: config.chatId, messageId: String(message.message_id) };
       }
+      return ref;
     },
 
-    onTodos: async (sessionId, todos) => {
-      const tracking = activeSessions.get(sessionId);
-      if (!tracking || todos.length === 0) return;
+    async edit(ref, markdown, actions, author) {
+      // A message can't grow into several, so anything past the first chunk is cut
+      const prefix = authorPrefix(author);
+      const [text = ''] = chunkHtml(markdownToTelegram(markdown), MAX_MESSAGE_LENGTH - prefix.length);
+      // Editing without reply_markup also removes any buttons
+      await editMessage(ref.channelId, Number(ref.messageId), prefix + text, actions ? buildKeyboard(actions) : undefined);
+    },
 
-      const todosText = formatTodos(todos);
-      await sendMessage(`_Claude Code:_ *Tasks:*\n${todosText}`);
+    async remove(ref) {
+      await messageQueue.add(() => bot.api.deleteMessage(ref.channelId, Number(ref.messageId)));
     },
 
-    onToolCall: async (_sessionId, _tool) => {
-      // Disabled to reduce message volume
+    async upload(sessionId, filePath, caption) {
+      if (!activeSessions.has(sessionId)) return;
+
+      const file = new InputFile(filePath, basename(filePath));
+      const isPhoto =
+        PHOTO_EXTENSIONS.has(extname(filePath).toLowerCase()) && (await stat(filePath)).size <= MAX_PHOTO_BYTES;
+      await messageQueue.add(async () => {
+        if (isPhoto) {
+          await bot.api.sendPhoto(config.chatId, file, { caption, disable_notification: true });
+        } else {
+          await bot.api.sendDocument(config.chatId, file, { caption, disable_notification: true });
+        }
+      });
     },
 
-    onToolResult: async (_sessionId, _result) => {
-      // Disabled to reduce message volume
+    async uploadAlbum(sessionId, files) {
+      if (!activeSessions.has(sessionId)) return;
+
+      // Only photos go in a media group; the rest (GIFs, large images) are sent one by one
+      const photos: typeof files = [];
+      for (const file of files) {
+        const isPhoto =
+          PHOTO_EXTENSIONS.has(extname(file.filePath).toLowerCase()) && (await stat(file.filePath)).size <= MAX_PHOTO_BYTES;
+        if (isPhoto) {
+          photos.push(file);
+        } else {
+          await adapter.upload(sessionId, file.filePath, file.caption);
+        }
+      }
+
+      for (let i = 0; i < photos.length; i += MAX_ALBUM_SIZE) {
+        const group = photos.slice(i, i + MAX_ALBUM_SIZE);
+        if (group.length === 1) {
+          await adapter.upload(sessionId, group[0].filePath, group[0].caption);
+          continue;
+        }
+        const media = group.map((file) =>
+          InputMediaBuilder.photo(new InputFile(file.filePath, basename(file.filePath)), { caption: file.caption })
+        );
+        await messageQueue.add(() => bot.api.sendMediaGroup(config.chatId, media, { disable_notification: true }));
+      }
     },
 
-    onPlanModeChange: async (sessionId, inPlanMode) => {
-      const tracking = activeSessions.get(sessionId);
-      if (!tracking) return;
+    async pin(ref) {
+      await messageQueue.add(() =>
+        bot.api.pinChatMessage(ref.channelId, Number(ref.messageId), { disable_notification: true })
+      );
+    },
 
-      const status = inPlanMode
-        ? 'Planning mode - Claude is designing a solution'
-        : 'Execution mode - Claude is implementing';
+    async unpin(ref) {
+      await messageQueue.add(() => bot.api.unpinChatMessage(ref.channelId, Number(ref.messageId)));
+    },
 
-      await sendMessage(`_Claude Code:_ ${status}`);
+    async notify(sessionId, markdown) {
+      if (!activeSessions.has(sessionId)) return;
+      await sendMessage(markdownToTelegram(markdown), { disable_notification: false });
     },
-  });
+  };
+
+  router.addAdapter(adapter);
 
   function getCurrentSession(): SessionTracking | null {
     // If explicit session selected, use it
@@ -182,7 +307,7 @@ export function createTelegramApp(config: TelegramConfig) {
 
     // Auto-select if only one session
     if (activeSessions.size === 1) {
-      return activeSessions.values().next().value;
+      return activeSessions.values().next().value ?? null;
     }
 
     return null;
@@ -208,6 +333,26 @@ export function createTelegramApp(config: TelegramConfig) {
     return mostRecent;
   }
 
+  /**
+   * The session a chat message is for: the selected one, or the only one.
+   * Replies with what to do instead when there isn't one.
+   */
+  async function sessionForInput(ctx: Context): Promise<SessionTracking | null> {
+    const current = getCurrentSession();
+    if (current) return current;
+
+    if (activeSessions.size === 0) {
+      await replyMarkdown(ctx, 'No active sessions. Start one with:\n`afk-code run -- claude`');
+    } else {
+      // Multiple sessions, need to select one
+      const list = Array.from(activeSessions.values())
+        .map((s) => `• \`${s.sessionName}\``)
+        .join('\n');
+      await replyMarkdown(ctx, `Multiple sessions active. Select one first:\n\n${list}\n\nUse: \`/switch <name>\``);
+    }
+    return null;
+  }
+
   // Handle incoming messages
   bot.on('message:text', async (ctx) => {
     // Only respond to messages from the configured chat
@@ -221,32 +366,104 @@ export function createTelegramApp(config: TelegramConfig) {
       return;
     }
 
-    // Get current session
-    const current = getCurrentSession();
+    const current = await sessionForInput(ctx);
+    if (!current) return;
 
-    if (!current) {
-      if (activeSessions.size === 0) {
-        await ctx.reply('No active sessions. Start one with:\n`afk-code run -- claude`', { parse_mode: 'Markdown' });
-      } else {
-        // Multiple sessions, need to select one
-        const list = Array.from(activeSessions.values())
-          .map((s) => `• \`${s.sessionName}\``)
-          .join('\n');
-        await ctx.reply(
-          `Multiple sessions active. Select one first:\n\n${list}\n\nUse: \`/switch <name>\``,
-          { parse_mode: 'Markdown' }
-        );
+    const warning = router.handleInput(adapter, current.sessionId, text);
+    if (warning) {
+      await ctx.reply(warning);
+    }
+  });
+
+  // Where a file sent to the bot can be downloaded (bots can only download files up to 20 MB)
+  async function inboundFile(fileId: string, name: string, size?: number): Promise<InboundFile> {
+    const { file_path } = await bot.api.getFile(fileId);
+    return { name, url: `https://api.telegram.org/file/bot${config.botToken}/${file_path}`, size };
+  }
+
+  // Photos and documents, with their caption as the message
+  bot.on(['message:photo', 'message:document'], async (ctx) => {
+    if (ctx.chat.id.toString() !== config.chatId) return;
+
+    const current = await sessionForInput(ctx);
+    if (!current) return;
+
+    // Photos come in several sizes - take the largest
+    const { photo, document } = ctx.message;
+    const attachment = photo ? photo[photo.length - 1] : document!;
+    const name = document?.file_name ?? `photo-${ctx.message.message_id}.jpg`;
+
+    let file: InboundFile;
+    try {
+      file = await inboundFile(attachment.file_id, name, attachment.file_size);
+    } catch (err: any) {
+      console.error(`[Telegram] Failed to look up attachment ${name}:`, err.message);
+      await ctx.reply(`⚠️ Attachment not sent - ${name} can't be downloaded (${err.message})`);
+      return;
+    }
+
+    const warning = await router.handleInputWithFiles(adapter, current.sessionId, ctx.message.caption ?? '', [file]);
+    if (warning) {
+      await ctx.reply(warning);
+    }
+  });
+
+  // Voice messages are transcribed, echoed back so mistakes can be spotted, and sent as the prompt
+  bot.on('message:voice', async (ctx) => {
+    if (ctx.chat.id.toString() !== config.chatId) return;
+    if (!transcriber) {
+      await ctx.reply('⚠️ Voice messages are turned off (TELEGRAM_TRANSCRIBER=off).');
+      return;
+    }
+
+    const current = await sessionForInput(ctx);
+    if (!current) return;
+
+    const voice = ctx.message.voice;
+    let audioPath: string | null = null;
+    let transcript: string;
+    try {
+      const file = await inboundFile(voice.file_id, `voice-${ctx.message.message_id}.ogg`, voice.file_size);
+      audioPath = await downloadAttachment(current.sessionId, file);
+      transcript = (await transcriber.transcribe(audioPath)).trim();
+    } catch (err: any) {
+      console.error(`[Telegram] Failed to transcribe voice message (${transcriber.name}):`, err.message);
+      await ctx.reply(`⚠️ Couldn't transcribe the voice message: ${err.message.split('\n')[0]}`);
+      return;
+    } finally {
+      if (audioPath) {
+        await rm(audioPath, { force: true }).catch(() => {});
       }
+    }
+
+    if (!transcript) {
+      await ctx.reply('⚠️ No speech was recognized in the voice message.');
       return;
     }
 
-    telegramSentMessages.add(text.trim());
+    await ctx.reply(`🎙️ <i>${escapeHtml(transcript)}</i>`, { parse_mode: 'HTML' });
+    const warning = router.handleInput(adapter, current.sessionId, transcript);
+    if (warning) {
+      await ctx.reply(warning);
+    }
+  });
+
+  // Button clicks (permission prompts and other questions)
+  bot.on('callback_query:data', async (ctx) => {
+    // Only respond to buttons in the configured chat
+    if (ctx.chat?.id.toString() !== config.chatId) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
 
-    const sent = sessionManager.sendInput(current.sessionId, text);
-    if (!sent) {
-      telegramSentMessages.delete(text.trim());
-      await ctx.reply('Failed to send input - session not connected.');
+    const data = ctx.callbackQuery.data;
+    if (!data.startsWith('afk:')) {
+      await ctx.answerCallbackQuery();
+      return;
     }
+
+    const warning = router.handleAction(adapter, data, ctx.from.first_name);
+    await ctx.answerCallbackQuery(warning ? { text: warning } : undefined);
   });
 
   async function handleCommand(ctx: Context, text: string) {
@@ -268,20 +485,20 @@ export function createTelegramApp(config: TelegramConfig) {
 
     switch (command.toLowerCase()) {
       case '/start': {
-        await ctx.reply(
-          `*AFK Code Telegram Bot*\n\n` +
+        await replyMarkdown(
+          ctx,
+          `**AFK Code Telegram Bot**\n\n` +
             `This bot lets you monitor and interact with Claude Code sessions.\n\n` +
             `Start a session with:\n` +
             `\`afk-code run -- claude\`\n\n` +
-            `Type /help for available commands.`,
-          { parse_mode: 'Markdown' }
+            `Type /help for available commands.`
         );
         break;
       }
 
       case '/sessions': {
         if (activeSessions.size === 0) {
-          await ctx.reply('No active sessions. Start one with `afk-code run -- claude`');
+          await replyMarkdown(ctx, 'No active sessions. Start one with `afk-code run -- claude`');
           return;
         }
 
@@ -289,11 +506,12 @@ export function createTelegramApp(config: TelegramConfig) {
         const list = Array.from(activeSessions.values())
           .map((s) => {
             const isCurrent = current && s.sessionId === current.sessionId;
-            return isCurrent ? `• *${s.sessionName}* ← current` : `• ${s.sessionName}`;
+            const status = formatSessionStatus(s.status);
+            return isCurrent ? `- **${s.sessionName}** - ${status} ← current` : `- ${s.sessionName} - ${status}`;
           })
           .join('\n');
 
-        await ctx.reply(`*Active Sessions:*\n${list}\n\nUse \`/switch <name>\` to change`, { parse_mode: 'Markdown' });
+        await replyMarkdown(ctx, `**Active Sessions:**\n${list}\n\nUse \`/switch <name>\` to change`);
         break;
       }
 
@@ -308,101 +526,57 @@ export function createTelegramApp(config: TelegramConfig) {
           const list = Array.from(activeSessions.values())
             .map((s) => {
               const isCurrent = current && s.sessionId === current.sessionId;
-              return isCurrent ? `• *${s.sessionName}* ← current` : `• ${s.sessionName}`;
+              return isCurrent ? `- **${s.sessionName}** ← current` : `- ${s.sessionName}`;
             })
             .join('\n');
-          await ctx.reply(`*Sessions:*\n${list}\n\nUse: \`/switch <name>\``, { parse_mode: 'Markdown' });
+          await replyMarkdown(ctx, `**Sessions:**\n${list}\n\nUse: \`/switch <name>\``);
           return;
         }
         const session = getSessionByName(sessionArg);
         if (session) {
           currentSessionId = session.sessionId;
-          await ctx.reply(`Switched to: *${session.sessionName}*`, { parse_mode: 'Markdown' });
+          persist();
+          await replyMarkdown(ctx, `Switched to: **${session.sessionName}**`);
         } else {
           await ctx.reply(`Session not found: ${sessionArg}`);
         }
         break;
       }
 
-      case '/background':
-      case '/bg': {
-        if (!targetSession) {
-          await ctx.reply('No active session.');
-          return;
-        }
-        const sent = sessionManager.sendInput(targetSession.sessionId, '\x02');
-        await ctx.reply(sent ? 'Sent background command (Ctrl+B)' : 'Failed - session not connected.');
-        break;
-      }
-
-      case '/interrupt':
-      case '/stop': {
-        if (!targetSession) {
-          await ctx.reply('No active session.');
-          return;
-        }
-        const sent = sessionManager.sendInput(targetSession.sessionId, '\x1b');
-        await ctx.reply(sent ? 'Sent interrupt (Escape)' : 'Failed - session not connected.');
+      case '/help': {
+        await replyMarkdown(
+          ctx,
+          `**AFK Code Commands:**\n\n` +
+            `/sessions - List active sessions\n` +
+            `/switch <name> - Switch to a session\n` +
+            SESSION_COMMANDS.map(
+              (c) =>
+                `/${c.name}${c.option ? (c.option.optional ? ` [${c.option.name}]` : ` <${c.option.name}>`) : ''} - ${c.description}\n`
+            ).join('') +
+            `/help - Show this message\n\n` +
+            `_Messages go to the current session (auto-selected if only one)._`
+        );
         break;
       }
 
-      case '/mode': {
-        if (!targetSession) {
-          await ctx.reply('No active session.');
-          return;
-        }
-        const sent = sessionManager.sendInput(targetSession.sessionId, '\x1b[Z');
-        await ctx.reply(sent ? 'Sent mode toggle (Shift+Tab)' : 'Failed - session not connected.');
-        break;
-      }
+      default: {
+        // Session commands: /background, /interrupt, /mode, /compact, /model, /verbose
+        const sessionCommand = findSessionCommand(command);
+        if (!sessionCommand) break; // Ignore unknown commands
 
-      case '/compact': {
         if (!targetSession) {
           await ctx.reply('No active session.');
           return;
         }
-        const sent = sessionManager.sendInput(targetSession.sessionId, '/compact\n');
-        await ctx.reply(sent ? 'Sent /compact' : 'Failed - session not connected.');
-        break;
-      }
 
-      case '/model': {
-        if (!targetSession) {
-          await ctx.reply('No active session.');
-          return;
-        }
-        const modelArg = args.slice(targetSession === getSessionByName(args[0] || '') ? 1 : 0).join(' ');
-        if (!modelArg) {
-          await ctx.reply('Usage: `/model <opus|sonnet|haiku>`', { parse_mode: 'Markdown' });
-          return;
-        }
-        const sent = sessionManager.sendInput(targetSession.sessionId, `/model ${modelArg}\n`);
-        await ctx.reply(sent ? `Sent /model ${modelArg}` : 'Failed - session not connected.');
+        // Leading session name (if any) selects the target; the rest is the argument
+        const commandArg = args.slice(sessionArg && targetSession === getSessionByName(sessionArg) ? 1 : 0).join(' ');
+        const reply = router.runCommand(adapter, targetSession.sessionId, sessionCommand.name, commandArg);
+        await replyMarkdown(ctx, reply);
         break;
       }
-
-      case '/help': {
-        await ctx.reply(
-          `*AFK Code Commands:*\n\n` +
-            `/sessions - List active sessions\n` +
-            `/switch <name> - Switch to a session\n` +
-            `/model <name> - Switch model\n` +
-            `/compact - Compact conversation\n` +
-            `/background - Send Ctrl+B\n` +
-            `/interrupt - Send Escape\n` +
-            `/mode - Toggle mode (Shift+Tab)\n` +
-            `/help - Show this message\n\n` +
-            `_Messages go to the current session (auto-selected if only one)._`,
-          { parse_mode: 'Markdown' }
-        );
-        break;
-      }
-
-      default:
-        // Ignore unknown commands
-        break;
     }
   }
 
-  return { bot, sessionManager };
+  return { bot, sessionManager: router.sessionManager, adapter };
 }
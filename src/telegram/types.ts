@@ -1,4 +1,15 @@
+import type { NotificationPolicy } from '../core/notifications.js';
+import type { ToolCallPolicy } from '../core/tool-calls.js';
+import type { ArtifactPolicy } from '../core/artifacts.js';
+import type { Transcriber } from '../utils/transcription.js';
+
 export interface TelegramConfig {
   botToken: string;
   chatId: string; // The chat ID to send messages to (your user ID or a group ID)
+  notifications?: NotificationPolicy; // When to play a sound (quiet hours, delay)
+  toolCalls?: ToolCallPolicy; // Which tool calls to post (default: off)
+  announceCompletedTodos?: boolean; // Post a line whenever a todo item is completed
+  streamReplies?: boolean; // Edit Claude's replies into place as they are written
+  artifacts?: ArtifactPolicy; // Which files Claude mentions are uploaded (default: images, PDFs, reports, logs)
+  transcriber?: Transcriber | null; // Turns voice messages into prompts (default: the local whisper.cpp command; null turns them off)
 }
@@ -0,0 +1,71 @@
+import { realpathSync, statSync } from 'fs';
+import { extname, resolve } from 'path';
+import { homedir } from 'os';
+
+// Regex to match file paths with an extension
+// Matches: /absolute/path.pdf, ./relative/path.html, ~/home/path.csv, "quoted/path.png"
+const PATH_PATTERN = /(?:["'`]([^"'`\n]+\.[a-z0-9]{1,8})["'`]|(?:^|[\s(])([~./][^\s)"'`\n]*\.[a-z0-9]{1,8}))(?![\w/])/gi;
+
+export interface ExtractedArtifact {
+  originalPath: string;
+  resolvedPath: string; // With symlinks resolved - the file that would really be uploaded
+  extension: string; // Lowercase, with the dot
+  size: number;
+}
+
+/**
+ * Extract the paths of files mentioned in text that exist on disk. Which of
+ * them get uploaded is up to each platform's ArtifactPolicy (extensions, size
+ * cap and upload roots) and the upload sandbox.
+ */
+export function extractArtifactPaths(content: string, cwd?: string): ExtractedArtifact[] {
+  const artifacts: ExtractedArtifact[] = [];
+  const seen = new Set<string>();
+  const root = resolve(cwd || process.cwd());
+
+  // Reset regex state
+  PATH_PATTERN.lastIndex = 0;
+
+  let match;
+  while ((match = PATH_PATTERN.exec(content)) !== null) {
+    // Get the captured path (from quoted or unquoted group), without trailing punctuation
+    const quoted = Boolean(match[1]);
+    const originalPath = (match[1] || match[2]).trim().replace(/[.,;:!?]+$/, '');
+
+    if (!originalPath) continue;
+
+    // Resolve the path
+    let resolvedPath = originalPath;
+
+    // Handle home directory
+    if (resolvedPath.startsWith('~/')) {
+      resolvedPath = resolve(homedir(), resolvedPath.slice(2));
+    }
+    // Handle relative paths (quoted ones, e.g. `out/report.html`, needn't start with ./)
+    else if (resolvedPath.startsWith('./') || resolvedPath.startsWith('../') || (quoted && !resolvedPath.startsWith('/'))) {
+      resolvedPath = resolve(root, resolvedPath);
+    }
+    // Handle absolute paths
+    else if (resolvedPath.startsWith('/')) {
+      resolvedPath = resolve(resolvedPath);
+    }
+    // Not a recognizable path format, skip
+    else {
+      continue;
+    }
+
+    // Verify file exists and is a file (not directory), and find where it really is
+    try {
+      const realPath = realpathSync(resolvedPath);
+      const stat = statSync(realPath);
+      if (stat.isFile() && !seen.has(realPath)) {
+        seen.add(realPath);
+        artifacts.push({ originalPath, resolvedPath: realPath, extension: extname(realPath).toLowerCase(), size: stat.size });
+      }
+    } catch {
+      // File doesn't exist or can't be accessed, skip
+    }
+  }
+
+  return artifacts;
+}
@@ -0,0 +1,101 @@
+/**
+ * Claude Code's AskUserQuestion tool - read its questions from the tool call
+ * and turn answers picked in chat into keystrokes for the terminal UI.
+ */
+
+export interface QuestionOption {
+  label: string;
+  description?: string;
+}
+
+export interface AskQuestion {
+  question: string;
+  header?: string; // Short tag shown above the question, e.g. "Auth method"
+  options: QuestionOption[];
+  multiSelect: boolean;
+}
+
+export type QuestionAnswer =
+  | { kind: 'option'; index: number }
+  | { kind: 'multi'; indexes: number[] }
+  | { kind: 'other'; text: string };
+
+const DOWN = '\x1b[B';
+const ENTER = '\r';
+const SPACE = ' ';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the questions from an AskUserQuestion tool call's input. The input
+ * comes straight from the transcript, so anything malformed is skipped.
+ */
+export function parseAskUserQuestion(input: unknown): AskQuestion[] {
+  if (!isRecord(input) || !Array.isArray(input.questions)) return [];
+
+  const questions: AskQuestion[] = [];
+  for (const q of input.questions) {
+    if (!isRecord(q) || typeof q.question !== 'string' || !Array.isArray(q.options)) continue;
+
+    const options: QuestionOption[] = [];
+    for (const o of q.options) {
+      if (!isRecord(o) || typeof o.label !== 'string') continue;
+      options.push({
+        label: o.label,
+        description: typeof o.description === 'string' ? o.description : undefined,
+      });
+    }
+    if (options.length === 0) continue;
+
+    questions.push({
+      question: q.question,
+      header: typeof q.header === 'string' ? q.header : undefined,
+      options,
+      multiSelect: q.multiSelect === true,
+    });
+  }
+  return questions;
+}
+
+/**
+ * Keystrokes that answer every question in the terminal, in order.
+ *
+ * The terminal shows one question at a time with the cursor on the first
+ * option, followed by a free-text "Other" row: arrows move, Space toggles a
+ * multi-select option, Enter picks. With several questions, a final review
+ * screen is confirmed with Enter.
+ */
+export function answerKeys(questions: AskQuestion[], answers: QuestionAnswer[]): string[] {
+  const keys: string[] = [];
+
+  questions.forEach((question, i) => {
+    const answer = answers[i];
+    switch (answer.kind) {
+      case 'option':
+        keys.push(...Array(answer.index).fill(DOWN), ENTER);
+        break;
+
+      case 'multi': {
+        let cursor = 0;
+        for (const index of [...answer.indexes].sort((a, b) => a - b)) {
+          keys.push(...Array(index - cursor).fill(DOWN), SPACE);
+          cursor = index;
+        }
+        keys.push(ENTER);
+        break;
+      }
+
+      case 'other':
+        // Typing on the "Other" row fills in its text field
+        keys.push(...Array(question.options.length).fill(DOWN), answer.text, ENTER);
+        break;
+    }
+  });
+
+  if (questions.length > 1) {
+    keys.push(ENTER);
+  }
+  return keys;
+}
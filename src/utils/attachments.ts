@@ -0,0 +1,75 @@
+/**
+ * Files sent from chat (screenshots, logs, documents) are downloaded into a
+ * directory per session under ~/.afk-code/attachments/, and their paths are
+ * added to the message Claude gets, so it can read them.
+ */
+
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { basename } from 'path';
+import { STATE_DIR } from './json-store.js';
+
+const ATTACHMENTS_DIR = `${STATE_DIR}/attachments`;
+
+// Larger files are refused rather than downloaded
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * A file attached to a chat message, as the platform offers it for download
+ */
+export interface InboundFile {
+  name: string;
+  url: string;
+  size?: number; // Bytes, when the platform says up front
+  headers?: Record<string, string>; // Needed to download it, e.g. Slack's bot token
+}
+
+function sessionDir(sessionId: string): string {
+  return `${ATTACHMENTS_DIR}/${sessionId.replace(/[^\w-]/g, '_')}`;
+}
+
+// A file name that is safe to write and easy to type: no directories, spaces or leading dots
+function safeFileName(name: string): string {
+  return basename(name).replace(/[^\w.-]+/g, '_').replace(/^\.+/, '') || 'file';
+}
+
+/**
+ * Download a file into the session's attachment directory. Returns its path.
+ */
+export async function downloadAttachment(sessionId: string, file: InboundFile): Promise<string> {
+  const tooLarge = `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+  if (file.size && file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(tooLarge);
+  }
+
+  const response = await fetch(file.url, { headers: file.headers });
+  if (!response.ok) {
+    throw new Error(`Download of ${file.name} failed: HTTP ${response.status}`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(tooLarge);
+  }
+
+  const dir = sessionDir(sessionId);
+  await mkdir(dir, { recursive: true });
+  // Prefixed with the time, so a second screenshot.png doesn't replace the first
+  const path = `${dir}/${Date.now()}-${safeFileName(file.name)}`;
+  await writeFile(path, data);
+  return path;
+}
+
+/**
+ * Delete everything downloaded for a session
+ */
+export async function removeAttachments(sessionId: string): Promise<void> {
+  await rm(sessionDir(sessionId), { recursive: true, force: true });
+}
+
+/**
+ * The message for Claude: what was typed, followed by the attached files' paths
+ */
+export function withAttachments(text: string, paths: string[]): string {
+  if (paths.length === 0) return text;
+  const list = paths.map((path) => `- ${path}`).join('\n');
+  return text.trim() ? `${text}\n\nAttached files:\n${list}` : `Attached files:\n${list}`;
+}
@@ -0,0 +1,232 @@
+/**
+ * Turn Claude's file edits (Edit, MultiEdit and Write tool calls) into
+ * unified diffs, so code changes can be reviewed from chat.
+ */
+
+import { readFile, mkdir, mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, resolve } from 'path';
+import type { ToolCallInfo } from '../slack/session-manager.js';
+
+export const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write']);
+
+export interface EditDiff {
+  path: string;
+  diff: string; // Unified diff, starting with the ---/+++ header
+  added: number;
+  removed: number;
+}
+
+const CONTEXT_LINES = 3;
+
+// Above this many line pairs, differing middles are shown as removed and re-added
+// instead of matched line by line (the LCS table grows with their product)
+const MAX_LCS_CELLS = 1_000_000;
+
+// Where large diffs are written for upload, and how long they are kept
+const DIFF_DIR = `${tmpdir()}/afk-code-diffs`;
+const DIFF_FILE_TTL_MS = 10 * 60 * 1000;
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline ends the last line rather than starting another
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Line-by-line edit script from `a` to `b`, using a longest common subsequence
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ op: ' ', text }));
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  if (n * m > MAX_LCS_CELLS) {
+    result.push(...oldMiddle.map((text) => ({ op: '-' as const, text })));
+    result.push(...newMiddle.map((text) => ({ op: '+' as const, text })));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        result.push({ op: ' ', text: oldMiddle[i++] });
+        j++;
+      } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] > lengths[(i + 1) * (m + 1) + j])) {
+        result.push({ op: '+', text: newMiddle[j++] });
+      } else {
+        result.push({ op: '-', text: oldMiddle[i++] });
+      }
+    }
+  }
+
+  result.push(...a.slice(a.length - suffix).map((text) => ({ op: ' ' as const, text })));
+  return result;
+}
+
+/**
+ * Hunks (without the ---/+++ header) turning `oldText` into `newText`.
+ * `startLine` is where `oldText` begins in its file, for the @@ line numbers.
+ */
+function diffHunks(oldText: string, newText: string, startLine = 1): { hunks: string[]; added: number; removed: number } {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks: string[] = [];
+  let added = 0;
+  let removed = 0;
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change, then grow the hunk while changes are close together
+    while (index < lines.length && lines[index].op === ' ') index++;
+    if (index === lines.length) break;
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= CONTEXT_LINES * 2) {
+      if (lines[end].op !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+
+    const before = lines.slice(0, start);
+    const oldStart = startLine + before.filter((l) => l.op !== '+').length;
+    const newStart = startLine + before.filter((l) => l.op !== '-').length;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((l) => l.op !== '+').length;
+    const newCount = hunk.filter((l) => l.op !== '-').length;
+
+    added += hunk.filter((l) => l.op === '+').length;
+    removed += hunk.filter((l) => l.op === '-').length;
+    // An empty side is numbered by the line before it, as diff does
+    const oldRange = `${oldCount ? oldStart : oldStart - 1},${oldCount}`;
+    const newRange = `${newCount ? newStart : newStart - 1},${newCount}`;
+    hunks.push([`@@ -${oldRange} +${newRange} @@`, ...hunk.map((l) => `${l.op}${l.text}`)].join('\n'));
+    index = end;
+  }
+
+  return { hunks, added, removed };
+}
+
+// The ---/+++ lines; a file being created has no old side, as in git diff
+function diffHeader(path: string, created = false): string[] {
+  return [created ? '--- /dev/null' : `--- a/${path}`, `+++ b/${path}`];
+}
+
+/**
+ * Unified diff of one file's old and new text, with `oldText` null for a new file
+ */
+export function unifiedDiff(path: string, oldText: string | null, newText: string): EditDiff {
+  const { hunks, added, removed } = diffHunks(oldText ?? '', newText);
+  return { path, diff: [...diffHeader(path, oldText === null), ...hunks].join('\n'), added, removed };
+}
+
+// Line number where `fragment` starts in `content`, or null if it isn't there
+function lineOf(content: string, fragment: string): number | null {
+  const index = fragment ? content.indexOf(fragment) : -1;
+  if (index === -1) return null;
+  return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Absolute path of the file an Edit, MultiEdit or Write call changes, or null
+ * for other tools
+ */
+export function editedFilePath(tool: ToolCallInfo, cwd?: string): string | null {
+  const filePath = tool.input.file_path;
+  if (!EDIT_TOOLS.has(tool.name) || typeof filePath !== 'string') return null;
+  return isAbsolute(filePath) || !cwd ? filePath : resolve(cwd, filePath);
+}
+
+/**
+ * The diff an Edit, MultiEdit or Write call makes, or null for other tools or
+ * when it can't be worked out (e.g. Write already ran, so the old content is gone).
+ * The file is read to place Edit hunks at their real line numbers, so check
+ * it with the upload sandbox first (see uploadRefusal).
+ */
+export async function editDiff(tool: ToolCallInfo, cwd?: string): Promise<EditDiff | null> {
+  const absolutePath = editedFilePath(tool, cwd);
+  if (!absolutePath) return null;
+  const shownPath = cwd && absolutePath.startsWith(`${cwd}/`) ? absolutePath.slice(cwd.length + 1) : tool.input.file_path;
+
+  let current: string | null = null;
+  try {
+    current = await readFile(absolutePath, 'utf-8');
+  } catch {
+    // New file, or not readable from here
+  }
+
+  if (tool.name === 'Write') {
+    if (typeof tool.input.content !== 'string') return null;
+    if (current === tool.input.content) return null; // Already written - the old content is gone
+    return unifiedDiff(shownPath, current, tool.input.content);
+  }
+
+  const edits: any[] = tool.name === 'MultiEdit' ? tool.input.edits : [tool.input];
+  if (!Array.isArray(edits)) return null;
+
+  const allHunks: string[] = [];
+  let added = 0;
+  let removed = 0;
+  for (const edit of edits) {
+    if (typeof edit?.old_string !== 'string' || typeof edit.new_string !== 'string') continue;
+
+    // Before the edit the old text is in the file; after it, the new text is in its place
+    const startLine = (current && (lineOf(current, edit.old_string) ?? lineOf(current, edit.new_string))) || 1;
+    const { hunks, added: a, removed: r } = diffHunks(edit.old_string, edit.new_string, startLine);
+    allHunks.push(...hunks);
+    added += a;
+    removed += r;
+  }
+  if (allHunks.length === 0) return null;
+
+  return {
+    path: shownPath,
+    diff: [...diffHeader(shownPath), ...allHunks].join('\n'),
+    added,
+    removed,
+  };
+}
+
+/**
+ * Write a diff to a temporary .diff file for uploading. It is removed again
+ * after a few minutes, once every platform has had time to upload it.
+ */
+export async function writeDiffFile(diff: EditDiff): Promise<string> {
+  await mkdir(DIFF_DIR, { recursive: true });
+  // A directory of its own, so the upload is named after the edited file
+  const dir = await mkdtemp(`${DIFF_DIR}/diff-`);
+  const path = `${dir}/${basename(diff.path)}.diff`;
+  await writeFile(path, diff.diff + '\n');
+
+  setTimeout(() => {
+    rm(dir, { recursive: true, force: true }).catch(() => {});
+  }, DIFF_FILE_TTL_MS).unref();
+
+  return path;
+}
@@ -0,0 +1,178 @@
+/**
+ * Gets images ready for chat before they are uploaded: formats chat apps
+ * don't preview (SVG, TIFF, BMP, ICO) become PNG, and images too big to
+ * preview or upload comfortably are scaled down. Uses ImageMagick (`magick`,
+ * or `convert` from version 6); without it, images are uploaded as they are.
+ *
+ * An SVG can pull other files into what it draws, which would get around the
+ * upload sandbox, so SVGs that reference anything are not rendered, and
+ * ImageMagick runs under a policy that blocks file includes, URLs and delegates.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, extname } from 'path';
+
+const run = promisify(execFile);
+
+// Converted to PNG, since chat apps show them as plain file attachments
+const CONVERT_EXTENSIONS = new Set(['.svg', '.tif', '.tiff', '.bmp', '.ico']);
+// Scaled down when too big; GIFs are left alone so animations survive
+const RESIZE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp']);
+
+// The ImageMagick coder each file is read with. Naming it stops ImageMagick from
+// going by the contents, which would render e.g. a .png holding SVG or MVG text
+const CODERS: Record<string, string> = {
+  '.svg': 'svg',
+  '.tif': 'tiff',
+  '.tiff': 'tiff',
+  '.bmp': 'bmp',
+  '.ico': 'ico',
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp',
+};
+
+/** Extensions of images that can be posted together as an album */
+export const ALBUM_EXTENSIONS = new Set([...RESIZE_EXTENSIONS, '.gif']);
+
+// Longest side, in pixels, and size an image may have before it is scaled down
+const MAX_DIMENSION = 2560;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const CONVERT_TIMEOUT_MS = 30_000;
+
+// Where converted images are written for upload, and how long they are kept
+const IMAGE_DIR = `${tmpdir()}/afk-code-images`;
+const IMAGE_FILE_TTL_MS = 10 * 60 * 1000;
+
+// Coders that read other files or URLs (MVG and TEXT take "@file" includes, MSL runs
+// scripts), "@file" paths, and external programs such as a curl or Inkscape delegate
+const MAGICK_POLICY = `<policymap>
+  <policy domain="coder" rights="none" pattern="{MVG,MSL,TEXT,LABEL,CAPTION,URL,HTTP,HTTPS,FTP,EPHEMERAL}" />
+  <policy domain="path" rights="none" pattern="@*" />
+  <policy domain="delegate" rights="none" pattern="*" />
+</policymap>
+`;
+
+// Attributes and CSS that point elsewhere, and DTDs, which can declare external entities
+const SVG_REFERENCE_PATTERN = /\bhref\s*=\s*(["'])(.*?)\1|url\(\s*(["']?)(.*?)\3\s*\)|@import\b|<!(?:DOCTYPE|ENTITY)\b/gis;
+
+// References an SVG may keep: to its own elements, or to inline data
+const SVG_INLINE_REFERENCE_PATTERN = /^\s*(?:#|data:)/i;
+
+/**
+ * The first reference in an SVG to another file or URL (an image, stylesheet,
+ * font or entity), or null if it draws only from what it contains
+ */
+export function svgExternalReference(svg: string): string | null {
+  for (const match of svg.matchAll(SVG_REFERENCE_PATTERN)) {
+    const target = match[2] ?? match[4];
+    if (target === undefined || !SVG_INLINE_REFERENCE_PATTERN.test(target)) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+interface ImageMagick {
+  convert: string[];
+  identify: string[];
+  env: NodeJS.ProcessEnv; // Points ImageMagick at MAGICK_POLICY
+}
+
+let imageMagick: Promise<ImageMagick | null> | null = null;
+
+// Write the policy into a directory of its own, so nobody else can put one in its place
+async function writePolicy(): Promise<NodeJS.ProcessEnv> {
+  const dir = await mkdtemp(`${tmpdir()}/afk-code-magick-`);
+  await writeFile(`${dir}/policy.xml`, MAGICK_POLICY);
+  return { ...process.env, MAGICK_CONFIGURE_PATH: dir };
+}
+
+// Look for ImageMagick once
+function findImageMagick(): Promise<ImageMagick | null> {
+  imageMagick ??= (async () => {
+    try {
+      await run('magick', ['-version']);
+      return { convert: ['magick'], identify: ['magick', 'identify'], env: await writePolicy() };
+    } catch {
+      // Not version 7
+    }
+    try {
+      await run('convert', ['-version']);
+      return { convert: ['convert'], identify: ['identify'], env: await writePolicy() };
+    } catch {
+      console.warn('[ImagePipeline] ImageMagick not found - images are uploaded without converting or scaling');
+      return null;
+    }
+  })();
+  return imageMagick;
+}
+
+async function magick(tools: ImageMagick, command: string[], args: string[]): Promise<string> {
+  const { stdout } = await run(command[0], [...command.slice(1), ...args], {
+    timeout: CONVERT_TIMEOUT_MS,
+    env: tools.env,
+  });
+  return stdout;
+}
+
+// How ImageMagick is told to read the first frame or page of an image (multi-page TIFFs, icons with several sizes)
+function magickInput(path: string): string {
+  return `${CODERS[extname(path).toLowerCase()]}:${path}[0]`;
+}
+
+// Whether a raster image is too big to post as it is
+async function isOversized(tools: ImageMagick, path: string): Promise<boolean> {
+  if ((await stat(path)).size > MAX_IMAGE_BYTES) return true;
+  const [width, height] = (await magick(tools, tools.identify, ['-format', '%w %h', magickInput(path)])).split(' ').map(Number);
+  return Math.max(width, height) > MAX_DIMENSION;
+}
+
+/**
+ * The file to upload for `path`: a converted or scaled-down copy if the image
+ * needs one, otherwise `path` itself. Copies are removed again after a few
+ * minutes, once every platform has had time to upload them.
+ */
+export async function prepareImage(path: string): Promise<string> {
+  const ext = extname(path).toLowerCase();
+  const convert = CONVERT_EXTENSIONS.has(ext);
+  if (!convert && !RESIZE_EXTENSIONS.has(ext)) return path;
+
+  const tools = await findImageMagick();
+  if (!tools) return path;
+
+  try {
+    if (!convert && !(await isOversized(tools, path))) return path;
+
+    if (ext === '.svg') {
+      const reference = svgExternalReference(await readFile(path, 'utf-8'));
+      if (reference) {
+        console.warn(`[ImagePipeline] Not rendering ${path}, it references another file or URL: ${reference.slice(0, 100)}`);
+        return path;
+      }
+    }
+
+    await mkdir(IMAGE_DIR, { recursive: true });
+    // A directory of its own, so the upload keeps the image's name
+    const dir = await mkdtemp(`${IMAGE_DIR}/image-`);
+    const output = `${dir}/${basename(path, extname(path))}${convert ? '.png' : ext}`;
+    setTimeout(() => {
+      rm(dir, { recursive: true, force: true }).catch(() => {});
+    }, IMAGE_FILE_TTL_MS).unref();
+
+    // SVGs are drawn at a higher density, keeping their transparent background
+    const render = ext === '.svg' ? ['-background', 'none', '-density', '192'] : [];
+    await magick(tools, tools.convert, [...render, magickInput(path), '-resize', `${MAX_DIMENSION}x${MAX_DIMENSION}>`, output]);
+
+    console.log(`[ImagePipeline] ${convert ? 'Converted' : 'Scaled down'} ${path} for upload`);
+    return output;
+  } catch (err: any) {
+    console.error(`[ImagePipeline] Failed to prepare ${path}, uploading it as it is:`, err.message);
+    return path;
+  }
+}
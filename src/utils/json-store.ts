@@ -0,0 +1,101 @@
+import { homedir } from 'os';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+export const STATE_DIR = `${homedir()}/.afk-code`;
+
+// Coalesce bursts of changes (e.g. one per JSONL line) into one write
+const SAVE_DELAY_MS = 500;
+
+// Stores with a save that hasn't reached the disk yet, for flushStores()
+const unsaved = new Set<JsonStore<unknown>>();
+
+/**
+ * Write every store's unsaved changes right away - call before the process exits
+ */
+export function flushStores(): void {
+  for (const store of unsaved) {
+    store.flush();
+  }
+}
+
+/**
+ * A small JSON file under ~/.afk-code/ holding state that has to survive a
+ * bot restart. Loaded synchronously at startup; saves are debounced and
+ * written atomically (temp file + rename).
+ */
+export class JsonStore<T> {
+  private path: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: T | null = null;
+  private writing: T | null = null; // Passed to write() and not on disk yet
+
+  constructor(name: string) {
+    this.path = `${STATE_DIR}/${name}`;
+  }
+
+  load(fallback: T): T {
+    try {
+      return JSON.parse(readFileSync(this.path, 'utf-8')) as T;
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        console.error(`[JsonStore] Ignoring unreadable ${this.path}:`, err.message);
+      }
+      return fallback;
+    }
+  }
+
+  save(data: T): void {
+    this.pending = data;
+    unsaved.add(this);
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      const data = this.pending;
+      this.pending = null;
+      this.writing = data;
+      this.write(data)
+        .catch((err) => {
+          console.error(`[JsonStore] Failed to save ${this.path}:`, err.message);
+        })
+        .finally(() => {
+          if (this.writing === data) this.writing = null;
+          if (!this.pending && !this.writing) unsaved.delete(this);
+        });
+    }, SAVE_DELAY_MS);
+  }
+
+  /**
+   * Write the latest save synchronously instead of waiting for the timer (or
+   * for a write still in progress). Meant for shutdown, where nothing async runs.
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const data = this.pending ?? this.writing;
+    this.pending = null;
+    this.writing = null;
+    unsaved.delete(this);
+    if (data === null) return;
+
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tempPath = `${this.path}.${process.pid}.flush.tmp`;
+      writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      renameSync(tempPath, this.path);
+    } catch (err: any) {
+      console.error(`[JsonStore] Failed to save ${this.path}:`, err.message);
+    }
+  }
+
+  private async write(data: T | null): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,83 @@
+import { open, stat } from 'fs/promises';
+
+// Read at most this much at a time, so a long transcript never sits in memory whole
+const CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Follows a JSONL file as it grows, reading only what was appended since the
+ * last read. A partial trailing line is left for the next read. If the file
+ * shrinks or is replaced (different inode), reading starts over from the top.
+ */
+export class JsonlTailer {
+  readonly path: string;
+  private position: number;
+  private inode: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(path: string, offset = 0) {
+    this.path = path;
+    this.position = offset;
+  }
+
+  /** Bytes of the file consumed so far - always the end of a complete line */
+  get offset(): number {
+    return this.position;
+  }
+
+  /**
+   * Pass each new complete line to `onLine`. Reads never overlap, so the
+   * watcher and the poll can both call this.
+   */
+  read(onLine: (line: string) => void): Promise<void> {
+    const next = this.queue.then(() => this.readNew(onLine));
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async readNew(onLine: (line: string) => void): Promise<void> {
+    const info = await stat(this.path);
+
+    if (this.inode !== null && info.ino !== this.inode) {
+      console.log(`[JsonlTailer] ${this.path} was replaced - reading from the start`);
+      this.position = 0;
+    } else if (info.size < this.position) {
+      console.log(`[JsonlTailer] ${this.path} was truncated - reading from the start`);
+      this.position = 0;
+    }
+    this.inode = info.ino;
+
+    if (info.size === this.position) return;
+
+    const file = await open(this.path, 'r');
+    try {
+      let pending = Buffer.alloc(0); // Start of a line that continues in the next chunk
+      let readFrom = this.position;
+
+      while (readFrom < info.size) {
+        const chunk = Buffer.alloc(Math.min(CHUNK_SIZE, info.size - readFrom));
+        const { bytesRead } = await file.read(chunk, 0, chunk.length, readFrom);
+        if (bytesRead === 0) break;
+        readFrom += bytesRead;
+
+        const read = chunk.subarray(0, bytesRead);
+        const data = pending.length > 0 ? Buffer.concat([pending, read]) : read;
+        const dataStart = readFrom - data.length; // File position of data[0]
+
+        let lineStart = 0;
+        let newline = data.indexOf(0x0a);
+        while (newline !== -1) {
+          const line = data.subarray(lineStart, newline).toString('utf-8').trim();
+          lineStart = newline + 1;
+          // Count the line as read before handling it, so a bad line isn't retried forever
+          this.position = dataStart + lineStart;
+          if (line) onLine(line);
+          newline = data.indexOf(0x0a, lineStart);
+        }
+
+        pending = data.subarray(lineStart);
+      }
+    } finally {
+      await file.close();
+    }
+  }
+}
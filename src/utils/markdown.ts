@@ -0,0 +1,503 @@
+/**
+ * A small Markdown parser for the GitHub-flavored Markdown Claude writes:
+ * headings, paragraphs, fenced code, nested lists (with task items), block
+ * quotes, tables and rules, with code spans, emphasis, strikethrough and links
+ * inside them. Each chat platform renders the tree in its own syntax.
+ *
+ * Single newlines inside a paragraph are kept as line breaks, since chat
+ * messages are read the way they were written.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: Inline[] }
+  | { type: 'link'; url: string; children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  checked: boolean | null; // Task list items only
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+// Cells of a table row, without the outer pipes; `\|` is a literal pipe
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    i + 1 < lines.length &&
+    lines[i].includes('|') &&
+    TABLE_DELIMITER_PATTERN.test(lines[i + 1]) &&
+    lines[i + 1].includes('-') &&
+    splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length
+  );
+}
+
+// Whether `line` starts a block other than a paragraph (so it ends the paragraph before it)
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    (LIST_ITEM_PATTERN.test(line) && !isBlank(line.replace(LIST_ITEM_PATTERN, '$3'))) ||
+    isTableStart(lines, i)
+  );
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code, kept verbatim; an unclosed fence runs to the end (e.g. a reply still being written)
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const [, indent, marker, lang] = fence;
+      const code: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].trim();
+        if (closing.length >= marker.length && [...closing].every((c) => c === marker[0])) {
+          closed = true;
+          i++;
+          break;
+        }
+        // Remove as much indentation as the opening fence had
+        code.push(lines[i].slice(Math.min(indent.length, indentOf(lines[i]))));
+        i++;
+      }
+      // Blank lines at the end of the text aren't part of an unclosed fence's code
+      while (!closed && code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: 'code', lang, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const align = splitTableRow(lines[i + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const header = splitTableRow(lines[i]).map(parseInline);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        // Rows are padded or cut to the header's width, as GitHub does
+        rows.push(header.map((_, n) => parseInline(cells[n] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header, rows });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse the list starting at line `start` into `blocks`, returning the line
+ * after it. An item takes every following line indented past its marker,
+ * which is how nested lists and multi-paragraph items are written.
+ */
+function parseList(lines: string[], start: number, blocks: Block[]): number {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const list: Extract<Block, { type: 'list' }> = {
+    type: 'list',
+    ordered,
+    start: ordered ? parseInt(first[2], 10) : 1,
+    items: [],
+  };
+
+  let i = start;
+  while (i < lines.length) {
+    const item = LIST_ITEM_PATTERN.exec(lines[i]);
+    if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+
+    const contentIndent = indent + item[2].length + 1;
+    const content: string[] = [item[3] ?? ''];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line only continues the item if more of it follows
+        let next = i + 1;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) > indent) {
+          content.push(...lines.slice(i, next).map(() => ''));
+          i = next;
+          continue;
+        }
+        break;
+      }
+
+      if (indentOf(line) > indent) {
+        content.push(line.slice(Math.min(contentIndent, indentOf(line))));
+      } else if (!startsBlock(lines, i) && !isBlank(content[content.length - 1])) {
+        // An unindented line continues the item's last paragraph
+        content.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    let checked: boolean | null = null;
+    const task = TASK_PATTERN.exec(content[0]);
+    if (task) {
+      checked = task[1] !== ' ';
+      content[0] = content[0].slice(task[0].length);
+    }
+    list.items.push({ checked, children: parseBlocks(content) });
+
+    // Items may be separated by blank lines
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    if (next < lines.length && LIST_ITEM_PATTERN.test(lines[next]) && indentOf(lines[next]) === indent) {
+      i = next;
+    }
+  }
+
+  blocks.push(list);
+  return i;
+}
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+// Links and emphasis nested deeper than this are left as text, so a run like `[[[[…` can't overflow the stack
+const MAX_INLINE_DEPTH = 16;
+
+/**
+ * What parsing one text has found out so far. An unclosed delimiter or
+ * bracket would otherwise send every later one scanning to the end of the
+ * text again, which is quadratic in runs like `*a *a *a …` or `[[[…`.
+ */
+interface InlineScan {
+  text: string;
+  // Delimiter or code span run -> position a search for its closer failed from.
+  // A later search can't get further, so it fails straight away.
+  unclosedFrom: Map<string, number>;
+  // Opening character -> index of the bracket closing the one at each index, or -1
+  brackets: Map<string, Int32Array>;
+}
+
+// End of the code span opened by the backtick run at `start`, or -1 if it isn't closed
+function findCodeSpanEnd(scan: InlineScan, start: number, run: string): number {
+  const key = `code${run.length}`;
+  if (start >= (scan.unclosedFrom.get(key) ?? Infinity)) return -1;
+  const end = scan.text.indexOf(run, start + run.length);
+  if (end === -1) scan.unclosedFrom.set(key, start);
+  return end;
+}
+
+// Index of the delimiter closing one that opened just before `from`, skipping code spans; -1 if none
+function findClosing(scan: InlineScan, from: number, delimiter: string): number {
+  const { text } = scan;
+  if (from >= (scan.unclosedFrom.get(delimiter) ?? Infinity)) return -1;
+
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = findCodeSpanEnd(scan, i, run);
+      if (end !== -1) {
+        i = end + run.length - 1;
+        continue;
+      }
+      i += run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i) || i === from || /\s/.test(text[i - 1])) continue;
+    // A run of the delimiter's character longer than the delimiter closes something else
+    if (delimiter.length === 1 && text[i + 1] === delimiter) {
+      i++;
+      continue;
+    }
+    // Intraword underscores are part of the word (snake_case)
+    if (delimiter[0] === '_' && /\w/.test(text[i + delimiter.length] ?? '')) continue;
+    return i;
+  }
+
+  scan.unclosedFrom.set(delimiter, from);
+  return -1;
+}
+
+// Index of the bracket closing the one at `open`, allowing nested pairs; -1 if none
+function findMatching(scan: InlineScan, open: number, openChar: string, closeChar: string): number {
+  let matches = scan.brackets.get(openChar);
+  if (!matches) {
+    // Pair up every bracket in one pass
+    const { text } = scan;
+    matches = new Int32Array(text.length).fill(-1);
+    const opened: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+      } else if (text[i] === openChar) {
+        opened.push(i);
+      } else if (text[i] === closeChar && opened.length > 0) {
+        matches[opened.pop()!] = i;
+      }
+    }
+    scan.brackets.set(openChar, matches);
+  }
+  return matches[open];
+}
+
+/**
+ * Parse inline Markdown: code spans, **strong**, *emphasis*, ~~strike~~,
+ * [links](url), <autolinks> and backslash escapes. Newlines become breaks.
+ */
+export function parseInline(text: string): Inline[] {
+  return parseNested(text, 0);
+}
+
+function parseNested(text: string, depth: number): Inline[] {
+  const nodes: Inline[] = [];
+  let plain = '';
+  const scan: InlineScan = { text, unclosedFrom: new Map(), brackets: new Map() };
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+  const push = (node: Inline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = findCodeSpanEnd(scan, i, run);
+      if (end !== -1) {
+        let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = end + run.length;
+        continue;
+      }
+      plain += run;
+      i += run.length;
+      continue;
+    }
+
+    const nests = depth < MAX_INLINE_DEPTH;
+
+    if (char === '!' && text[i + 1] === '[' && nests) {
+      // Images can't be shown inline in chat, so they become links
+      const close = findMatching(scan, i + 1, '[', ']');
+      if (close !== -1 && text[close + 1] === '(' && findMatching(scan, close + 1, '(', ')') !== -1) {
+        i++;
+        continue;
+      }
+    }
+
+    if (char === '[' && nests) {
+      const close = findMatching(scan, i, '[', ']');
+      if (close !== -1 && text[close + 1] === '(') {
+        const end = findMatching(scan, close + 1, '(', ')');
+        if (end !== -1) {
+          const url = text.slice(close + 2, end).trim().replace(/^<(.*)>$/, '$1').split(/\s+"/)[0];
+          push({ type: 'link', url, children: parseNested(text.slice(i + 1, close), depth + 1) });
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    const autolink = /^<((?:https?|mailto):[^\s<>]+)>/.exec(rest);
+    if (autolink) {
+      push({ type: 'link', url: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    const delimiter = ['**', '__', '~~', '*', '_'].find((d) => rest.startsWith(d));
+    if (delimiter && nests) {
+      const start = i + delimiter.length;
+      const opens = start < text.length && !/\s/.test(text[start]) && !(delimiter[0] === '_' && /\w/.test(text[i - 1] ?? ''));
+      const close = opens ? findClosing(scan, start, delimiter) : -1;
+      if (close !== -1) {
+        const type = delimiter === '~~' ? 'strike' : delimiter.length === 2 ? 'strong' : 'emphasis';
+        push({ type, children: parseNested(text.slice(start, close), depth + 1) });
+        i = close + delimiter.length;
+        continue;
+      }
+      plain += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse a Markdown document into blocks
+ */
+export function parseMarkdown(markdown: string): Block[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+/**
+ * Inline content as plain text, for places that can't show formatting
+ */
+export function inlineText(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Lay out a table as aligned plain-text columns, for platforms without tables
+ */
+export function formatTextTable(table: Extract<Block, { type: 'table' }>): string {
+  const cells = [table.header, ...table.rows].map((row) => row.map((cell) => inlineText(cell).replace(/\n/g, ' ')));
+  const widths = table.header.map((_, n) => Math.max(3, ...cells.map((row) => row[n].length)));
+
+  const pad = (text: string, n: number) => {
+    const space = widths[n] - text.length;
+    if (table.align[n] === 'right') return ' '.repeat(space) + text;
+    if (table.align[n] === 'center') return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2));
+    return text + ' '.repeat(space);
+  };
+  const line = (row: string[]) => row.map(pad).join(' | ').trimEnd();
+
+  return [line(cells[0]), widths.map((w) => '-'.repeat(w)).join('-|-'), ...cells.slice(1).map(line)].join('\n');
+}
+
+// Bullets for each level of nesting, for platforms without lists of their own
+const BULLETS = ['•', '◦', '▪'];
+const LIST_INDENT = '    ';
+
+/**
+ * Lay out a rendered list item: its marker (number, bullet for the nesting
+ * depth, or checkbox) before the first line, and the rest indented under it
+ */
+export function formatListItem(
+  list: Extract<Block, { type: 'list' }>,
+  index: number,
+  depth: number,
+  rendered: string
+): string {
+  const item = list.items[index];
+  let marker = list.ordered ? `${list.start + index}.` : BULLETS[depth % BULLETS.length];
+  if (item.checked !== null) marker = item.checked ? '☑' : '☐';
+
+  const [first = '', ...rest] = rendered.split('\n');
+  return [`${marker} ${first}`, ...rest.map((line) => (line ? LIST_INDENT + line : line))].join('\n');
+}
@@ -0,0 +1,44 @@
+/**
+ * Rate-limited queue that runs platform API calls one at a time,
+ * with a minimum delay between them to stay under API limits
+ */
+export class MessageQueue {
+  private queue: Array<() => Promise<any>> = [];
+  private processing = false;
+  private minDelay: number;
+
+  constructor(minDelay: number) {
+    this.minDelay = minDelay;
+  }
+
+  async add<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.queue.push(async () => {
+        try {
+          const result = await fn();
+          resolve(result);
+        } catch (err) {
+          reject(err);
+        }
+      });
+      this.process();
+    });
+  }
+
+  private async process() {
+    if (this.processing) return;
+    this.processing = true;
+
+    while (this.queue.length > 0) {
+      const fn = this.queue.shift();
+      if (fn) {
+        await fn();
+        if (this.queue.length > 0) {
+          await new Promise((r) => setTimeout(r, this.minDelay));
+        }
+      }
+    }
+
+    this.processing = false;
+  }
+}
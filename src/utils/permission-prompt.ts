@@ -0,0 +1,176 @@
+/**
+ * Detect Claude Code's permission prompts ("Do you want to proceed?") in raw
+ * PTY output, so they can be answered from chat.
+ */
+
+export interface PermissionOption {
+  key: string; // Keystroke that selects the option (its number)
+  label: string;
+}
+
+export interface PermissionPrompt {
+  id: string;
+  details: string[]; // What is being asked for, e.g. ["Bash command", "rm -rf dist"]
+  question: string;
+  options: PermissionOption[];
+}
+
+// CSI sequences, OSC sequences and two-character escapes
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+const CURSOR_FORWARD_PATTERN = /\x1b\[(\d*)C/g;
+const QUESTION_PATTERN = /Do you want to [^\n?]*\?/g;
+const PLAN_QUESTION_PATTERN = /Would you like to proceed\?/;
+const OPTION_PATTERN = /^(?:[❯>]\s*)?(\d)\.\s+(.+?)$/;
+const BOX_CHARS_PATTERN = /[│╭╮╰╯─┌┐└┘]/g;
+
+// Enough to hold a full prompt frame plus some surrounding output
+const MAX_BUFFER = 8000;
+// Wait for the UI to finish rendering before scanning
+const SCAN_DELAY_MS = 250;
+
+/**
+ * Convert raw terminal output to plain text lines
+ */
+export function stripAnsi(data: string): string {
+  return data
+    .replace(CURSOR_FORWARD_PATTERN, (_, n) => ' '.repeat(Number(n) || 1))
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r\n?/g, '\n');
+}
+
+// Plain lines, without box sides, split from terminal text
+function screenLines(screen: string): string[] {
+  return screen.split('\n').map((line) => line.replace(BOX_CHARS_PATTERN, '').trim());
+}
+
+// The numbered options listed at the start of `lines`
+function parseOptions(lines: string[]): PermissionOption[] {
+  const options: PermissionOption[] = [];
+  for (const line of lines) {
+    if (!line) continue;
+    const match = line.match(OPTION_PATTERN);
+    if (!match) break;
+    options.push({ key: match[1], label: match[2] });
+  }
+  return options;
+}
+
+/**
+ * The options of the most recent plan approval dialog ("Would you like to
+ * proceed?") in plain terminal text, or [] if none is on screen. Which options
+ * it offers, and in what order, depends on the Claude Code version and mode.
+ */
+export function parsePlanApprovalOptions(screen: string): PermissionOption[] {
+  const lines = screenLines(screen);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (PLAN_QUESTION_PATTERN.test(lines[i])) {
+      return parseOptions(lines.slice(i + 1));
+    }
+  }
+  return [];
+}
+
+/**
+ * Find the most recent permission prompt in plain terminal text
+ */
+export function parsePermissionPrompt(screen: string): Omit<PermissionPrompt, 'id'> | null {
+  const rawLines = screen.split('\n');
+  const lines = screenLines(screen);
+
+  // Use the last question on screen - earlier ones have already been answered
+  let questionIndex = -1;
+  let question = '';
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(QUESTION_PATTERN);
+    if (match) {
+      questionIndex = i;
+      question = match[match.length - 1];
+      break;
+    }
+  }
+  if (questionIndex === -1) return null;
+
+  const options = parseOptions(lines.slice(questionIndex + 1));
+
+  // Permission prompts always offer "Yes ..." first and a "No ..." option.
+  // This keeps a question in Claude's own response from being mistaken for one.
+  if (options.length < 2) return null;
+  if (!/^yes\b/i.test(options[0].label) || !options.some((o) => /^no\b/i.test(o.label))) {
+    return null;
+  }
+
+  // Details are the lines above the question, back to the top of the prompt box
+  const details: string[] = [];
+  for (let i = questionIndex - 1; i >= 0 && details.length < 12; i--) {
+    if (rawLines[i].includes('╭')) break;
+    if (lines[i]) details.unshift(lines[i]);
+  }
+
+  return { details, question, options };
+}
+
+// Keys that answer a select prompt: Enter, a number, or Escape on its own
+function isAnswerKey(data: string): boolean {
+  return data.includes('\r') || /^[1-9]$/.test(data) || data === '\x1b';
+}
+
+interface PermissionPromptHandlers {
+  onPrompt: (prompt: PermissionPrompt) => void;
+  onResolved: (promptId: string) => void;
+}
+
+/**
+ * Watches PTY output for permission prompts and reports each one once,
+ * then reports it resolved when an answer is typed (locally or from chat).
+ */
+export class PermissionPromptDetector {
+  private handlers: PermissionPromptHandlers;
+  private buffer = '';
+  private pending: { id: string; signature: string } | null = null;
+  private scanTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+
+  constructor(handlers: PermissionPromptHandlers) {
+    this.handlers = handlers;
+  }
+
+  feed(data: string): void {
+    this.buffer = (this.buffer + stripAnsi(data)).slice(-MAX_BUFFER);
+
+    if (this.scanTimer) clearTimeout(this.scanTimer);
+    this.scanTimer = setTimeout(() => this.scan(), SCAN_DELAY_MS);
+  }
+
+  noteInput(data: string): void {
+    if (!this.pending || !isAnswerKey(data)) return;
+
+    const { id } = this.pending;
+    this.pending = null;
+    // Forget the answered prompt so it isn't detected again
+    this.buffer = '';
+    this.handlers.onResolved(id);
+  }
+
+  dispose(): void {
+    if (this.scanTimer) clearTimeout(this.scanTimer);
+  }
+
+  private scan(): void {
+    this.scanTimer = null;
+
+    const prompt = parsePermissionPrompt(this.buffer);
+    if (!prompt) return;
+
+    const signature = JSON.stringify(prompt);
+    if (this.pending?.signature === signature) return;
+
+    // A different prompt replaced the one we reported
+    if (this.pending) {
+      this.handlers.onResolved(this.pending.id);
+    }
+
+    const id = String(this.nextId++);
+    this.pending = { id, signature };
+    this.handlers.onPrompt({ id, ...prompt });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Pick a running command's output out of Claude Code's terminal screen, for
+ * live tool call messages. The screen is plain text (see stripAnsi) holding
+ * the whole UI: the conversation, the tool's output box and the input box.
+ */
+
+const BOX_TOP_PATTERN = /^\s*[╭┌]/;
+const OUTPUT_MARKER_PATTERN = /^\s*⎿\s?/;
+// Box sides, Claude's own status line and the placeholder shown before any output
+const UI_LINE_PATTERN = /^\s*[│╰└]|esc to interrupt|\? for shortcuts|^\s*(?:⎿\s*)?Running…\s*$/i;
+
+/**
+ * The last `maxLines` lines of output below the most recent Bash call on
+ * screen, without the input box and status lines under it
+ */
+export function commandOutputTail(screen: string, maxLines = 10): string {
+  const lines = screen.split('\n').map((line) => line.trimEnd());
+
+  let start = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].includes('Bash(')) {
+      start = i + 1;
+      break;
+    }
+  }
+
+  const output: string[] = [];
+  for (const line of lines.slice(start)) {
+    if (BOX_TOP_PATTERN.test(line)) break; // The input box - nothing below it is output
+    if (UI_LINE_PATTERN.test(line)) continue;
+    const text = line.replace(OUTPUT_MARKER_PATTERN, '');
+    if (text.trim()) output.push(text);
+  }
+
+  return output.slice(-maxLines).join('\n');
+}
@@ -0,0 +1,79 @@
+/**
+ * Speech-to-text for voice messages, so prompts can be dictated. The backend
+ * runs a local command, whisper.cpp by default.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const run = promisify(execFile);
+
+// Voice notes are short; a transcription running longer than this has hung
+const TRANSCRIBE_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * whisper.cpp wants 16 kHz mono WAV, so ffmpeg converts the voice note first.
+ * The model defaults to ~/.afk-code/ggml-base.en.bin and can be set with WHISPER_MODEL.
+ */
+export const DEFAULT_TRANSCRIBE_COMMAND =
+  'ffmpeg -loglevel error -y -i {file} -ar 16000 -ac 1 {file}.wav && ' +
+  'whisper-cli -nt -np -m "${WHISPER_MODEL:-$HOME/.afk-code/ggml-base.en.bin}" -f {file}.wav; ' +
+  'status=$?; rm -f {file}.wav; exit $status';
+
+export interface Transcriber {
+  readonly name: string;
+  /** The text spoken in an audio file */
+  transcribe(audioPath: string): Promise<string>;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Run a shell command with `{file}` replaced by the audio file's path; what
+ * it prints is the transcript
+ */
+export function commandTranscriber(command: string, timeoutMs = TRANSCRIBE_TIMEOUT_MS): Transcriber {
+  return {
+    name: 'command',
+    async transcribe(audioPath) {
+      let stdout: string;
+      try {
+        ({ stdout } = await run('/bin/sh', ['-c', command.replaceAll('{file}', shellQuote(audioPath))], {
+          timeout: timeoutMs,
+          maxBuffer: 1024 * 1024,
+        }));
+      } catch (err: any) {
+        // The command's own last words say more than "Command failed: <the whole command>"
+        const reason = err.stderr?.trim().split('\n').pop();
+        throw new Error(reason || (err.killed ? 'timed out' : `exited with code ${err.code}`));
+      }
+      // whisper.cpp prints each segment on its own line
+      return stdout
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(' ');
+    },
+  };
+}
+
+/**
+ * Build a transcriber from config values: backend "command" (the default) or
+ * "off", and the command to run (DEFAULT_TRANSCRIBE_COMMAND if not given).
+ * Returns null when voice messages are turned off; an invalid backend is
+ * reported and the default used.
+ */
+export function parseTranscriber(
+  platform: string,
+  backend: string | undefined,
+  command: string | undefined
+): Transcriber | null {
+  const value = backend?.trim().toLowerCase() || 'command';
+  if (value === 'off') return null;
+  if (value !== 'command') {
+    console.warn(`[${platform}] Ignoring invalid transcriber "${backend}" (expected command or off)`);
+  }
+  return commandTranscriber(command || DEFAULT_TRANSCRIBE_COMMAND);
+}
@@ -0,0 +1,80 @@
+/**
+ * Guards uploads of files Claude mentions, so a response can't get private
+ * files (e.g. "~/.ssh/id_rsa.png") posted to chat: only files under the
+ * session's directory or a configured upload root are allowed, never hidden
+ * files or AFK Code's own state, and symlinks are judged by where they lead.
+ * Every upload and refusal is written to ~/.afk-code/uploads.log.
+ */
+
+import { realpathSync } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { STATE_DIR } from './json-store.js';
+
+const AUDIT_LOG = `${STATE_DIR}/uploads.log`;
+
+// Where a root really is, so a symlinked project directory still contains its files
+function realRoot(root: string): string {
+  try {
+    return realpathSync(root);
+  } catch {
+    return resolve(root);
+  }
+}
+
+/**
+ * Where a path really is, with symlinks resolved. A file that doesn't exist
+ * yet (e.g. one about to be written) is placed in its nearest existing directory.
+ */
+export function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(realPath(parent), basename(path));
+  }
+}
+
+// Path of `path` relative to `root` ('' for the root itself), or null if it's outside
+function pathInside(root: string, path: string): string | null {
+  const rel = relative(root, path);
+  if (isAbsolute(rel) || rel.split(sep)[0] === '..') return null;
+  return rel;
+}
+
+/**
+ * Why a file may not be uploaded, or null if it may. `realPath` must have its
+ * symlinks resolved; `roots` are the session's directory and any extra upload roots.
+ */
+export function uploadRefusal(realPath: string, roots: string[]): string | null {
+  if (pathInside(realRoot(STATE_DIR), realPath) !== null) {
+    return "AFK Code's own files";
+  }
+
+  for (const root of roots.map(realRoot)) {
+    const rel = pathInside(root, realPath);
+    if (rel === null) continue;
+    // Dotfiles and anything in a dot directory (.env, .git/, .ssh/ ...)
+    if (rel.split(sep).some((part) => part.startsWith('.'))) {
+      return 'hidden file or directory';
+    }
+    return null;
+  }
+
+  return 'outside the session directory and upload roots';
+}
+
+/**
+ * Record an upload (or a refusal, with its reason) in the log and the audit file
+ */
+export function auditUpload(platform: string, sessionId: string, path: string, refusal: string | null): void {
+  const outcome = refusal ? `refused (${refusal})` : 'uploaded';
+  console.log(`[${platform}] Upload audit: ${outcome}: ${path} (session ${sessionId})`);
+
+  const line = `${new Date().toISOString()}\t${platform}\t${sessionId}\t${refusal ? 'refused' : 'uploaded'}\t${path}\t${refusal ?? ''}\n`;
+  mkdir(STATE_DIR, { recursive: true })
+    .then(() => appendFile(AUDIT_LOG, line))
+    .catch((err) => {
+      console.error(`[${platform}] Failed to write the upload audit log:`, err.message);
+    });
+}
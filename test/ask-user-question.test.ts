@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { answerKeys, parseAskUserQuestion, type AskQuestion } from '../src/utils/ask-user-question.js';
+
+const DOWN = '\x1b[B';
+const ENTER = '\r';
+const SPACE = ' ';
+
+const single: AskQuestion = {
+  question: 'Which database?',
+  options: [{ label: 'Postgres' }, { label: 'SQLite' }, { label: 'MySQL' }],
+  multiSelect: false,
+};
+
+const multi: AskQuestion = {
+  question: 'Which checks?',
+  options: [{ label: 'Lint' }, { label: 'Types' }, { label: 'Tests' }, { label: 'Build' }],
+  multiSelect: true,
+};
+
+test('picking the first option is just Enter', () => {
+  assert.deepEqual(answerKeys([single], [{ kind: 'option', index: 0 }]), [ENTER]);
+});
+
+test('picking a later option moves down to it first', () => {
+  assert.deepEqual(answerKeys([single], [{ kind: 'option', index: 2 }]), [DOWN, DOWN, ENTER]);
+});
+
+test('a multi-select answer toggles each option with Space, in order, then confirms', () => {
+  assert.deepEqual(answerKeys([multi], [{ kind: 'multi', indexes: [3, 0, 2] }]), [
+    SPACE,
+    DOWN,
+    DOWN,
+    SPACE,
+    DOWN,
+    SPACE,
+    ENTER,
+  ]);
+});
+
+test('a multi-select answer with nothing picked is just Enter', () => {
+  assert.deepEqual(answerKeys([multi], [{ kind: 'multi', indexes: [] }]), [ENTER]);
+});
+
+test('an "Other" answer moves past every option and types the text', () => {
+  assert.deepEqual(answerKeys([single], [{ kind: 'other', text: 'DuckDB' }]), [DOWN, DOWN, DOWN, 'DuckDB', ENTER]);
+});
+
+test('several questions are answered in turn and the review screen confirmed', () => {
+  assert.deepEqual(
+    answerKeys(
+      [single, multi],
+      [
+        { kind: 'option', index: 1 },
+        { kind: 'multi', indexes: [1] },
+      ]
+    ),
+    [DOWN, ENTER, DOWN, SPACE, ENTER, ENTER]
+  );
+});
+
+test('malformed questions and options are skipped', () => {
+  const questions = parseAskUserQuestion({
+    questions: [
+      null,
+      { question: 'No options' },
+      { question: 'Pick one', header: 'DB', options: [{ label: 'A', description: 'first' }, { nope: true }, 'B'] },
+    ],
+  });
+  assert.deepEqual(questions, [
+    { question: 'Pick one', header: 'DB', options: [{ label: 'A', description: 'first' }], multiSelect: false },
+  ]);
+  assert.deepEqual(parseAskUserQuestion('questions'), []);
+});
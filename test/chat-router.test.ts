@@ -0,0 +1,89 @@
+/**
+ * Streamed replies, from transcript lines to the posts and edits an adapter
+ * sees. Each block of Claude's text should end up in one message of its own.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatAdapter, MessageRef, SendOptions } from '../src/core/chat-adapter.js';
+import { SessionManager, prompt, reply, sleep, startSession, text, toolResult, toolUse } from './helpers/sessions.js';
+
+// After helpers/sessions.js, which points ~/.afk-code somewhere temporary
+const { ChatRouter } = await import('../src/core/chat-router.js');
+
+type Post = { kind: 'send' | 'edit' | 'remove'; id: string; text?: string; author?: SendOptions['author'] };
+
+// An adapter that streams replies and records what it is asked to post
+function fakeAdapter() {
+  const posts: Post[] = [];
+  let nextId = 1;
+  const adapter: ChatAdapter = {
+    name: 'Fake',
+    toolCalls: { verbosity: 'summary', include: [], exclude: [] },
+    notifications: { delayMs: 60_000 },
+    announceCompletedTodos: false,
+    streamReplies: true,
+    artifacts: { extensions: [], maxBytes: 0, roots: [] },
+    editIntervalMs: 0,
+    openSession: async () => {},
+    closeSession: async () => {},
+    renameSession: async () => {},
+    setStatus: async () => {},
+    send: async (sessionId, markdown, options) => {
+      const ref: MessageRef = { sessionId, channelId: 'channel', messageId: String(nextId++) };
+      posts.push({ kind: 'send', id: ref.messageId, text: markdown, author: options?.author });
+      return ref;
+    },
+    edit: async (ref, markdown) => {
+      posts.push({ kind: 'edit', id: ref.messageId, text: markdown });
+    },
+    remove: async (ref) => {
+      posts.push({ kind: 'remove', id: ref.messageId });
+    },
+    pin: async () => {},
+    unpin: async () => {},
+    notify: async () => {},
+    upload: async () => {},
+    uploadAlbum: async () => {},
+  };
+  return { adapter, posts };
+}
+
+// The final text of each message posted, in order
+function messages(posts: Post[]): Map<string, string | undefined> {
+  const result = new Map<string, string | undefined>();
+  for (const post of posts) {
+    if (post.kind === 'remove') result.delete(post.id);
+    else result.set(post.id, post.text);
+  }
+  return result;
+}
+
+test('text, a tool call and more text stream into one message per text block', async (t) => {
+  const manager = new SessionManager();
+  const router = new ChatRouter(manager);
+  const { adapter, posts } = fakeAdapter();
+  router.addAdapter(adapter);
+  const { append } = await startSession(t, [prompt('Find the TODOs')], manager);
+
+  // Claude Code writes every content block of a reply as a line of its own
+  await append(reply([text("I'll search for them.")]));
+  await append(reply([toolUse('tool-1')], 'tool_use'));
+  await append(toolResult('tool-1'));
+  await append(reply([text('There are none.')]));
+  await append(reply([text('Anything else?')], 'end_turn'));
+  await sleep(50); // Let the deliveries and stream edits finish
+
+  assert.deepEqual(
+    posts.filter((p) => p.kind === 'remove'),
+    [],
+    'no placeholder was posted and taken down again'
+  );
+  // After the "Session started" message
+  assert.deepEqual([...messages(posts).values()].slice(1), [
+    'Find the TODOs',
+    "I'll search for them.",
+    '🔧 **Grep**: `TODO`',
+    'There are none.\n\nAnything else?',
+  ]);
+});
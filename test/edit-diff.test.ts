@@ -0,0 +1,105 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { editDiff, unifiedDiff, type EditDiff } from '../src/utils/edit-diff.js';
+import { isShortDiff } from '../src/slack/message-formatter.js';
+
+const numbered = (count: number, from = 1) => Array.from({ length: count }, (_, i) => `line ${from + i}`);
+const lines = (...items: string[]) => items.join('\n') + '\n';
+
+let cwd: string;
+before(() => {
+  cwd = mkdtempSync(join(tmpdir(), 'afk-diff-'));
+});
+after(() => rmSync(cwd, { recursive: true, force: true }));
+
+test('a changed line is shown with three lines of context either side', () => {
+  const before = lines(...numbered(10));
+  const after = before.replace('line 5\n', 'line five\n');
+  const { diff, added, removed } = unifiedDiff('src/a.ts', before, after);
+  assert.equal(
+    diff,
+    [
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+line five',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+    ].join('\n')
+  );
+  assert.deepEqual([added, removed], [1, 1]);
+});
+
+test('changes far apart get a hunk each, with line numbers shifted by earlier ones', () => {
+  const before = lines(...numbered(20));
+  const after = before.replace('line 2\n', 'line 2\nline 2.5\n').replace('line 18\n', '');
+  const hunks = unifiedDiff('a.txt', before, after).diff.split('\n').filter((l) => l.startsWith('@@'));
+  assert.deepEqual(hunks, ['@@ -1,5 +1,6 @@', '@@ -15,6 +16,5 @@']);
+});
+
+test('changes close together share a hunk', () => {
+  const before = lines(...numbered(20));
+  const after = before.replace('line 5\n', 'five\n').replace('line 10\n', 'ten\n');
+  const hunks = unifiedDiff('a.txt', before, after).diff.split('\n').filter((l) => l.startsWith('@@'));
+  assert.deepEqual(hunks, ['@@ -2,12 +2,12 @@']);
+});
+
+test('lines moved around are matched by their longest common run', () => {
+  const { diff } = unifiedDiff('a.txt', lines('a', 'b', 'c', 'd'), lines('b', 'c', 'd', 'a'));
+  assert.deepEqual(diff.split('\n').slice(2), ['@@ -1,4 +1,4 @@', '-a', ' b', ' c', ' d', '+a']);
+});
+
+test('a Write that creates a file is a diff from /dev/null', async () => {
+  const tool = { name: 'Write', input: { file_path: 'new.txt', content: 'hello\nworld\n' } };
+  const diff = await editDiff(tool, cwd);
+  assert.equal(diff?.diff, ['--- /dev/null', '+++ b/new.txt', '@@ -0,0 +1,2 @@', '+hello', '+world'].join('\n'));
+});
+
+test('a Write over an existing file is a diff from its current content', async () => {
+  writeFileSync(join(cwd, 'old.txt'), lines('keep', 'drop'));
+  const tool = { name: 'Write', input: { file_path: join(cwd, 'old.txt'), content: lines('keep', 'add') } };
+  const diff = await editDiff(tool, cwd);
+  assert.equal(diff?.diff, ['--- a/old.txt', '+++ b/old.txt', '@@ -1,2 +1,2 @@', ' keep', '-drop', '+add'].join('\n'));
+
+  // Once written, the old content is gone and there is nothing to show
+  writeFileSync(join(cwd, 'old.txt'), lines('keep', 'add'));
+  assert.equal(await editDiff(tool, cwd), null);
+});
+
+test('an Edit is numbered from where its text is in the file', async () => {
+  writeFileSync(join(cwd, 'edit.txt'), lines(...numbered(30)));
+  const tool = { name: 'Edit', input: { file_path: 'edit.txt', old_string: 'line 20', new_string: 'line twenty' } };
+  const diff = await editDiff(tool, cwd);
+  assert.deepEqual(diff?.diff.split('\n'), ['--- a/edit.txt', '+++ b/edit.txt', '@@ -20,1 +20,1 @@', '-line 20', '+line twenty']);
+});
+
+test('a MultiEdit has a hunk per edit and adds up their counts', async () => {
+  writeFileSync(join(cwd, 'multi.txt'), lines(...numbered(30)));
+  const edits = [
+    { old_string: 'line 3', new_string: 'line 3\nline 3.5' },
+    { old_string: 'line 25\n', new_string: '' },
+  ];
+  const diff = await editDiff({ name: 'MultiEdit', input: { file_path: 'multi.txt', edits } }, cwd);
+  assert.deepEqual(diff?.diff.split('\n').filter((l) => l.startsWith('@@')), ['@@ -3,1 +3,2 @@', '@@ -25,1 +24,0 @@']);
+  assert.deepEqual([diff?.added, diff?.removed], [1, 1]);
+});
+
+test('other tools have no diff', async () => {
+  assert.equal(await editDiff({ name: 'Bash', input: { command: 'ls' } }, cwd), null);
+});
+
+test('short diffs are posted inline and long ones attached', () => {
+  const diffOf = (text: string): EditDiff => ({ path: 'a.txt', diff: text, added: 0, removed: 0 });
+  assert.equal(isShortDiff(diffOf(numbered(30).join('\n'))), true);
+  assert.equal(isShortDiff(diffOf(numbered(31).join('\n'))), false);
+  assert.equal(isShortDiff(diffOf('x'.repeat(1500))), true);
+  assert.equal(isShortDiff(diffOf('x'.repeat(1501))), false);
+});
@@ -0,0 +1,79 @@
+/**
+ * Drives a SessionManager the way run.ts does: a session_start message bound
+ * to a transcript, then transcript lines appended the way Claude Code writes
+ * them - one line per content block of a reply.
+ */
+
+import { after } from 'node:test';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Keep saved sessions out of the real ~/.afk-code (read when json-store.ts loads, so before importing)
+const home = mkdtempSync(join(tmpdir(), 'afk-home-'));
+process.env.HOME = home;
+
+export const { SessionManager } = await import('../../src/slack/session-manager.js');
+const { flushStores } = await import('../../src/utils/json-store.js');
+
+after(() => {
+  // Sessions ending save their state a moment later - write it now, not into a deleted directory
+  flushStores();
+  rmSync(home, { recursive: true, force: true });
+});
+type Manager = InstanceType<typeof SessionManager>;
+
+export const prompt = (text: string) => JSON.stringify({ type: 'user', message: { role: 'user', content: text } });
+export const reply = (content: object[], stopReason: string | null = null) =>
+  JSON.stringify({ type: 'assistant', message: { role: 'assistant', content, stop_reason: stopReason } });
+export const text = (value: string) => ({ type: 'text', text: value });
+export const toolUse = (id: string, name = 'Grep') => ({ type: 'tool_use', id, name, input: { pattern: 'TODO' } });
+export const toolResult = (id: string) =>
+  JSON.stringify({ type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id }] } });
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Every event a manager emits, in order
+export function recorder() {
+  const events: [string, ...unknown[]][] = [];
+  const listener = new Proxy({}, { get: (_, event: string) => (...args: unknown[]) => events.push([event, ...args]) });
+  return { events, listener, statuses: () => events.filter(([e]) => e === 'onSessionStatus').map(([, , s]) => s) };
+}
+
+/**
+ * Start session "session-1" on a transcript holding `lines`, which need at
+ * least one message for the manager to take it up. `append` adds lines and
+ * waits until the manager has read them.
+ */
+export async function startSession(t: { after: (fn: () => void) => void }, lines: string[], manager: Manager) {
+  const projectDir = mkdtempSync(join(tmpdir(), 'afk-project-'));
+  const transcript = join(projectDir, 'transcript-1.jsonl');
+  writeFileSync(transcript, lines.map((line) => line + '\n').join(''));
+
+  const internals = manager as any;
+  const socket = { write: () => true };
+  await internals.handleSessionMessage(socket, {
+    type: 'session_start',
+    id: 'session-1',
+    cwd: projectDir,
+    projectDir,
+    transcriptId: 'transcript-1',
+    command: ['claude'],
+  });
+
+  // startWatching runs in the background - wait for it to open the transcript and watch the directory
+  while (!internals.sessions.get('session-1')?.watcher || !internals.sessions.get('session-1').tailer) await sleep(10);
+  const session = internals.sessions.get('session-1');
+  await internals.processJsonlUpdates(session);
+
+  const append = async (...more: string[]) => {
+    appendFileSync(transcript, more.map((line) => line + '\n').join(''));
+    await internals.processJsonlUpdates(session);
+  };
+
+  t.after(() => {
+    internals.handleSessionMessage(socket, { type: 'session_end', sessionId: 'session-1' });
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+  return { internals, session, append };
+}
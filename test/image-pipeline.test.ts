@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { svgExternalReference } from '../src/utils/image-pipeline.js';
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${body}</svg>`;
+
+test('self-contained SVGs can be rendered', () => {
+  assert.equal(svgExternalReference(svg('<rect width="10" height="10" fill="red"/>')), null);
+  assert.equal(svgExternalReference(svg('<use href="#shape"/><rect fill="url(#gradient)"/>')), null);
+  assert.equal(svgExternalReference(svg('<image xlink:href="data:image/png;base64,iVBORw0KGgo="/>')), null);
+  assert.equal(svgExternalReference(svg(`<rect style="fill: url('#g')"/>`)), null);
+});
+
+test('SVGs that load local files are refused', () => {
+  assert.ok(svgExternalReference(svg('<image xlink:href="/home/me/.ssh/id_rsa"/>')));
+  assert.ok(svgExternalReference(svg("<image href='../../.afk-code/telegram.json'/>")));
+  assert.ok(svgExternalReference(svg('<image href="text:/etc/passwd"/>')));
+  assert.ok(svgExternalReference(svg('<image href="&#47;etc&#47;passwd"/>')));
+  assert.ok(svgExternalReference(svg('<rect fill="url(file:///etc/passwd)"/>')));
+});
+
+test('SVGs that fetch URLs are refused', () => {
+  assert.ok(svgExternalReference(svg('<image href="https://example.com/track.png"/>')));
+  assert.ok(svgExternalReference(svg('<style>@import "https://example.com/a.css";</style>')));
+  assert.ok(svgExternalReference(svg('<style>text { font-family: url(https://example.com/f.woff) }</style>')));
+});
+
+test('SVGs with a DTD are refused, since entities can name files', () => {
+  const withEntity = `<!DOCTYPE svg [<!ENTITY secret SYSTEM "file:///etc/passwd">]>${svg('<text>&secret;</text>')}`;
+  assert.ok(svgExternalReference(withEntity));
+});
@@ -0,0 +1,46 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// STATE_DIR is read from the home directory when the module loads
+const home = mkdtempSync(join(tmpdir(), 'afk-home-'));
+process.env.HOME = home;
+const { JsonStore, flushStores } = await import('../src/utils/json-store.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+const onDisk = (name: string) => JSON.parse(readFileSync(join(home, '.afk-code', name), 'utf-8'));
+
+test('saves are written after a short delay, latest first', async () => {
+  const store = new JsonStore<number[]>('delayed.json');
+  store.save([1]);
+  store.save([1, 2]);
+  assert.equal(existsSync(join(home, '.afk-code', 'delayed.json')), false);
+  await new Promise((resolve) => setTimeout(resolve, 700));
+  assert.deepEqual(onDisk('delayed.json'), [1, 2]);
+  assert.deepEqual(store.load([]), [1, 2]);
+});
+
+test('flush writes a pending save right away', () => {
+  const store = new JsonStore<{ id: string }>('flushed.json');
+  store.save({ id: 'a' });
+  store.flush();
+  assert.deepEqual(onDisk('flushed.json'), { id: 'a' });
+});
+
+test('flushStores writes every store with a pending save', () => {
+  const first = new JsonStore<string>('first.json');
+  const second = new JsonStore<string>('second.json');
+  first.save('one');
+  second.save('two');
+  flushStores();
+  assert.equal(onDisk('first.json'), 'one');
+  assert.equal(onDisk('second.json'), 'two');
+});
+
+test('flushing with nothing saved writes nothing', () => {
+  new JsonStore<string>('untouched.json').flush();
+  assert.equal(existsSync(join(home, '.afk-code', 'untouched.json')), false);
+});
@@ -0,0 +1,90 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, renameSync, rmSync, truncateSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonlTailer } from '../src/utils/jsonl-tailer.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'afk-tailer-'));
+  file = join(dir, 'transcript.jsonl');
+});
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+async function readLines(tailer: JsonlTailer): Promise<string[]> {
+  const lines: string[] = [];
+  await tailer.read((line) => lines.push(line));
+  return lines;
+}
+
+test('only lines appended since the last read are returned', async () => {
+  writeFileSync(file, '{"n":1}\n{"n":2}\n');
+  const tailer = new JsonlTailer(file);
+  assert.deepEqual(await readLines(tailer), ['{"n":1}', '{"n":2}']);
+  assert.deepEqual(await readLines(tailer), []);
+
+  appendFileSync(file, '{"n":3}\n\n');
+  assert.deepEqual(await readLines(tailer), ['{"n":3}']);
+  assert.equal(tailer.offset, Buffer.byteLength('{"n":1}\n{"n":2}\n{"n":3}\n\n'));
+});
+
+test('a partial trailing line waits until it is complete', async () => {
+  writeFileSync(file, '{"n":1}\n{"text":"hal');
+  const tailer = new JsonlTailer(file);
+  assert.deepEqual(await readLines(tailer), ['{"n":1}']);
+  assert.equal(tailer.offset, '{"n":1}\n'.length);
+
+  appendFileSync(file, 'f done"}\n');
+  assert.deepEqual(await readLines(tailer), ['{"text":"half done"}']);
+});
+
+test('reading resumes from a saved offset', async () => {
+  writeFileSync(file, '{"n":1}\n{"n":2}\n');
+  const tailer = new JsonlTailer(file, '{"n":1}\n'.length);
+  assert.deepEqual(await readLines(tailer), ['{"n":2}']);
+});
+
+test('a truncated file is read again from the start', async (t) => {
+  t.mock.method(console, 'log', () => {});
+  writeFileSync(file, '{"n":1}\n{"n":2}\n');
+  const tailer = new JsonlTailer(file);
+  await readLines(tailer);
+
+  truncateSync(file, 0);
+  appendFileSync(file, '{"n":3}\n');
+  assert.deepEqual(await readLines(tailer), ['{"n":3}']);
+});
+
+test('a replaced file is read again from the start, even if it is longer', async (t) => {
+  t.mock.method(console, 'log', () => {});
+  writeFileSync(file, '{"n":1}\n');
+  const tailer = new JsonlTailer(file);
+  await readLines(tailer);
+
+  // Written elsewhere and renamed over it, as editors and atomic writers do
+  const replacement = join(dir, 'replacement.jsonl');
+  writeFileSync(replacement, '{"n":"a"}\n{"n":"b"}\n');
+  renameSync(replacement, file);
+  assert.deepEqual(await readLines(tailer), ['{"n":"a"}', '{"n":"b"}']);
+});
+
+test('lines longer than a read chunk, with characters split between chunks, arrive whole', async () => {
+  const long = JSON.stringify({ text: 'é'.repeat(300 * 1024) });
+  writeFileSync(file, `${long}\n{"n":2}\n`);
+  const lines = await readLines(new JsonlTailer(file));
+  assert.equal(lines.length, 2);
+  assert.equal(lines[0], long);
+  assert.equal(lines[1], '{"n":2}');
+});
+
+test('reads started together do not return a line twice', async () => {
+  writeFileSync(file, '{"n":1}\n{"n":2}\n');
+  const tailer = new JsonlTailer(file);
+  const lines: string[] = [];
+  await Promise.all([tailer.read((l) => lines.push(l)), tailer.read((l) => lines.push(l))]);
+  assert.deepEqual(lines, ['{"n":1}', '{"n":2}']);
+});
@@ -0,0 +1,75 @@
+/**
+ * Golden-file tests for Markdown rendering: each fixtures/markdown/<name>.md
+ * is rendered for Slack and Telegram and compared with <name>.slack.txt and
+ * <name>.telegram.html. Run with UPDATE_GOLDEN=1 to rewrite the expected
+ * files after an intended change, then review the diff.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { markdownToSlack } from '../src/slack/message-formatter.js';
+import { markdownToTelegram } from '../src/telegram/message-formatter.js';
+import { parseInline } from '../src/utils/markdown.js';
+
+const FIXTURES = new URL('./fixtures/markdown/', import.meta.url);
+
+const renderers = [
+  { name: 'Slack', extension: 'slack.txt', render: markdownToSlack },
+  { name: 'Telegram', extension: 'telegram.html', render: markdownToTelegram },
+];
+
+for (const file of readdirSync(FIXTURES).filter((f) => f.endsWith('.md'))) {
+  const fixture = file.slice(0, -'.md'.length);
+  const markdown = readFileSync(new URL(file, FIXTURES), 'utf-8');
+
+  for (const { name, extension, render } of renderers) {
+    test(`${fixture} renders for ${name}`, () => {
+      const expectedFile = new URL(`${fixture}.${extension}`, FIXTURES);
+      const actual = render(markdown) + '\n';
+      if (process.env.UPDATE_GOLDEN) {
+        writeFileSync(expectedFile, actual);
+        return;
+      }
+      assert.equal(actual, readFileSync(expectedFile, 'utf-8'));
+    });
+  }
+}
+
+// Unclosed delimiters and brackets used to send every later one scanning to the end of the text
+const pathological = {
+  'unclosed emphasis': '*a '.repeat(7000),
+  'unclosed strong': '**a '.repeat(5000),
+  'unclosed underscores': '_a '.repeat(7000),
+  'unclosed brackets': '['.repeat(20000),
+  'unclosed images': '!['.repeat(10000),
+  'unclosed link targets': '[a]('.repeat(5000),
+  'unclosed code spans': '`` a '.repeat(5000),
+  'deeply nested links': '['.repeat(4000) + 'x' + '](u)'.repeat(4000),
+};
+
+for (const [name, markdown] of Object.entries(pathological)) {
+  test(`${name} render in linear time`, () => {
+    const start = performance.now();
+    for (const { render } of renderers) render(markdown);
+    const elapsed = performance.now() - start;
+    assert.ok(elapsed < 1000, `took ${Math.round(elapsed)} ms`);
+  });
+}
+
+test('an unclosed delimiter or bracket does not stop later ones from pairing up', () => {
+  assert.deepEqual(parseInline('~~a **b** c'), [
+    { type: 'text', text: '~~a ' },
+    { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+    { type: 'text', text: ' c' },
+  ]);
+  assert.deepEqual(parseInline('[ [b](u)'), [
+    { type: 'text', text: '[ ' },
+    { type: 'link', url: 'u', children: [{ type: 'text', text: 'b' }] },
+  ]);
+  assert.deepEqual(parseInline('`` a `b` c'), [
+    { type: 'text', text: '`` a ' },
+    { type: 'code', text: 'b' },
+    { type: 'text', text: ' c' },
+  ]);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isQuietTime, parseNotificationPolicy, DEFAULT_NOTIFY_DELAY_MS } from '../src/core/notifications.js';
+
+// Local time, as quiet hours are
+const at = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 0, 15, hours, minutes);
+};
+
+test('quiet hours within a day include the start and exclude the end', () => {
+  const policy = parseNotificationPolicy('Test', '12:30-14:00', undefined);
+  assert.equal(isQuietTime(policy, at('12:29')), false);
+  assert.equal(isQuietTime(policy, at('12:30')), true);
+  assert.equal(isQuietTime(policy, at('13:59')), true);
+  assert.equal(isQuietTime(policy, at('14:00')), false);
+});
+
+test('quiet hours wrap past midnight', () => {
+  const policy = parseNotificationPolicy('Test', '22:00-07:00', undefined);
+  assert.equal(isQuietTime(policy, at('21:59')), false);
+  assert.equal(isQuietTime(policy, at('22:00')), true);
+  assert.equal(isQuietTime(policy, at('23:59')), true);
+  assert.equal(isQuietTime(policy, at('0:00')), true);
+  assert.equal(isQuietTime(policy, at('6:59')), true);
+  assert.equal(isQuietTime(policy, at('7:00')), false);
+  assert.equal(isQuietTime(policy, at('12:00')), false);
+});
+
+test('without quiet hours it is never quiet', () => {
+  const policy = parseNotificationPolicy('Test', undefined, undefined);
+  assert.equal(isQuietTime(policy, at('3:00')), false);
+  assert.equal(policy.delayMs, DEFAULT_NOTIFY_DELAY_MS);
+});
+
+test('quiet hours are read with spaces and single-digit hours', () => {
+  assert.deepEqual(parseNotificationPolicy('Test', ' 9:05 - 17:30 ', '0'), {
+    quietHours: { start: 9 * 60 + 5, end: 17 * 60 + 30 },
+    delayMs: 0,
+  });
+});
+
+test('invalid quiet hours and delays are reported and ignored', (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  for (const value of ['22-07', '24:00-07:00', '22:60-07:00', 'nights']) {
+    assert.equal(parseNotificationPolicy('Test', value, undefined).quietHours, undefined, value);
+  }
+  assert.equal(parseNotificationPolicy('Test', undefined, '-5').delayMs, DEFAULT_NOTIFY_DELAY_MS);
+  assert.equal(warn.mock.callCount(), 5);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /invalid quiet hours "22-07"/);
+});
@@ -0,0 +1,55 @@
+/**
+ * The prompt parsers read Claude Code's screen and decide which keys get typed
+ * into a live session, so they are checked against real prompt screens in
+ * fixtures/screens/. If Claude Code's UI changes, add the new screen here.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parsePermissionPrompt, parsePlanApprovalOptions, stripAnsi } from '../src/utils/permission-prompt.js';
+
+const screen = (name: string) => readFileSync(new URL(`./fixtures/screens/${name}.txt`, import.meta.url), 'utf-8');
+
+test('a proceed prompt is read with its details and three options', () => {
+  assert.deepEqual(parsePermissionPrompt(screen('proceed-prompt')), {
+    details: ['Bash command', 'npm test', 'Run the test suite'],
+    question: 'Do you want to proceed?',
+    options: [
+      { key: '1', label: 'Yes' },
+      { key: '2', label: "Yes, and don't ask again for npm test commands in /home/me/project" },
+      { key: '3', label: 'No, and tell Claude what to do differently (esc)' },
+    ],
+  });
+});
+
+test('a proceed prompt is read from raw terminal output', () => {
+  const raw = '\x1b[2K\x1b[1mDo you want to proceed?\x1b[0m\r\n\x1b[36m❯\x1b[39m\x1b[1C1. Yes\r\n\x1b[3C2. No\r\n';
+  assert.deepEqual(parsePermissionPrompt(stripAnsi(raw))?.options, [
+    { key: '1', label: 'Yes' },
+    { key: '2', label: 'No' },
+  ]);
+});
+
+test('the plan approval dialog is read with every option and its key', () => {
+  assert.deepEqual(parsePlanApprovalOptions(screen('plan-approval')), [
+    { key: '1', label: 'Yes, and auto-accept edits' },
+    { key: '2', label: 'Yes, and manually approve edits' },
+    { key: '3', label: 'No, keep planning' },
+  ]);
+});
+
+test('the plan approval dialog is not taken for a permission prompt', () => {
+  assert.equal(parsePermissionPrompt(screen('plan-approval')), null);
+});
+
+test("questions in Claude's own reply are not taken for prompts", () => {
+  assert.equal(parsePermissionPrompt(screen('not-a-prompt')), null);
+  assert.deepEqual(parsePlanApprovalOptions(screen('not-a-prompt')), []);
+});
+
+test('only the last prompt on screen counts', () => {
+  const answered = screen('proceed-prompt').replace('npm test', 'npm run build');
+  const prompt = parsePermissionPrompt(`${answered}\n⏺ Built.\n${screen('proceed-prompt')}`);
+  assert.deepEqual(prompt?.details, ['Bash command', 'npm test', 'Run the test suite']);
+});
@@ -0,0 +1,86 @@
+/**
+ * Session status and transcript tracking, fed transcript lines as Claude Code
+ * writes them (see helpers/sessions.ts).
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { SessionManager, prompt, recorder, reply, sleep, startSession, text, toolResult, toolUse } from './helpers/sessions.js';
+
+async function start(t: { after: (fn: () => void) => void }, lines: string[]) {
+  const { events, listener, statuses } = recorder();
+  const started = await startSession(t, lines, new SessionManager(listener as any));
+  return { ...started, events, statuses };
+}
+
+test('a reply that says the turn ended makes the session idle right away', async (t) => {
+  const { statuses, append } = await start(t, [prompt('hi')]);
+  await append(reply([text('Hello!')], 'end_turn'));
+  assert.deepEqual(statuses(), ['running', 'idle']);
+});
+
+test('text followed by a tool call in the same reply does not flicker idle', async (t) => {
+  const { statuses, append } = await start(t, [prompt('list the files')]);
+  await append(reply([text("I'll look.")]));
+  await append(reply([toolUse('tool-1')], 'tool_use'));
+  await sleep(1600);
+  assert.deepEqual(statuses(), ['running']);
+
+  await append(toolResult('tool-1'), reply([text('Two files.')], 'end_turn'));
+  assert.deepEqual(statuses(), ['running', 'idle']);
+});
+
+test('text with no stop reason becomes idle once the transcript goes quiet', async (t) => {
+  const { statuses, append } = await start(t, [prompt('hi')]);
+  await append(reply([text('Hello!')]));
+  assert.deepEqual(statuses(), ['running']);
+  await sleep(1600);
+  assert.deepEqual(statuses(), ['running', 'idle']);
+});
+
+test('a session that reconnects after /clear keeps following the new transcript', async (t) => {
+  const { internals, session, events } = await start(t, [prompt('hi')]);
+  const projectDir = session.projectDir;
+  const cleared = join(projectDir, 'transcript-2.jsonl');
+  const command = '<command-name>/clear</command-name>';
+  writeFileSync(cleared, JSON.stringify({ type: 'user', cwd: projectDir, message: { role: 'user', content: command } }) + '\n');
+  await internals.checkForNextJsonlFile(session);
+  assert.equal(session.watchedFile, cleared);
+
+  // The terminal's connection drops; run.ts reconnects with the transcript ID it started claude with
+  internals.stopWatching(session);
+  internals.sessions.delete('session-1');
+  internals.detach('session-1');
+  await internals.handleSessionMessage({ write: () => true }, {
+    type: 'session_start',
+    id: 'session-1',
+    cwd: projectDir,
+    projectDir,
+    transcriptId: 'transcript-1',
+  });
+
+  const resumed = internals.sessions.get('session-1');
+  while (!resumed.watcher) await sleep(10);
+  assert.notEqual(resumed, session);
+  assert.equal(resumed.watchedFile, cleared);
+  assert.notEqual(resumed.boundFile, join(projectDir, 'transcript-1.jsonl'));
+
+  appendFileSync(cleared, reply([text('Fresh start.')], 'end_turn') + '\n');
+  await internals.processJsonlUpdates(resumed);
+  assert.deepEqual(events.filter(([e]) => e === 'onMessage').at(-1), ['onMessage', 'session-1', 'assistant', 'Fresh start.']);
+});
+
+test('a read that finishes after the session ended does not save it again', async (t) => {
+  const { internals, events, append } = await start(t, [prompt('hi')]);
+  assert.ok(internals.saved['session-1']);
+
+  await internals.handleSessionMessage(null, { type: 'session_end', sessionId: 'session-1' });
+  assert.equal(internals.saved['session-1'], undefined);
+
+  // e.g. the directory watcher's read of the last line
+  await append(reply([text('Bye.')], 'end_turn'));
+  assert.ok(events.some(([event, , , content]) => event === 'onMessage' && content === 'Bye.'));
+  assert.equal(internals.saved['session-1'], undefined);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkHtml, htmlToText, markdownToTelegram } from '../src/telegram/message-formatter.js';
+
+const TOKEN_PATTERN = /<(\/?)([a-z-]+)(?:\s[^<>]*)?>|&(?:lt|gt|amp|quot|#\d+);|[<>&]/g;
+
+// Every chunk has to be valid Telegram HTML on its own: within the limit, no
+// broken tags or entities, and every tag it opens closed again
+function assertValidChunks(html: string, chunks: string[], maxLength: number): void {
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= maxLength, `chunk of ${chunk.length} characters: ${chunk}`);
+    const open: string[] = [];
+    for (const [token, closing, name] of chunk.matchAll(TOKEN_PATTERN)) {
+      assert.ok(token.length > 1, `stray "${token}" in chunk: ${chunk}`);
+      if (!name) continue;
+      if (closing) assert.equal(open.pop(), name, `</${name}> out of place in chunk: ${chunk}`);
+      else open.push(name);
+    }
+    assert.deepEqual(open, [], `unclosed tags in chunk: ${chunk}`);
+  }
+  // Nothing lost or repeated, apart from whitespace where a message ends
+  const text = (s: string) => htmlToText(s).replace(/\s+/g, '');
+  assert.equal(text(chunks.join('')), text(html));
+}
+
+test('HTML within the limit is one chunk', () => {
+  assert.deepEqual(chunkHtml('<b>hi</b>', 100), ['<b>hi</b>']);
+});
+
+test('lines are kept whole when they fit', () => {
+  const html = markdownToTelegram(Array.from({ length: 20 }, (_, i) => `Line **${i}**`).join('\n\n'));
+  const chunks = chunkHtml(html, 60);
+  assertValidChunks(html, chunks, 60);
+  for (const chunk of chunks) assert.match(chunk, /^Line <b>\d+<\/b>/);
+});
+
+test('a code block split across chunks is closed and reopened in each', () => {
+  const code = Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`).join('\n');
+  const html = markdownToTelegram('```ts\n' + code + '\n```');
+  const chunks = chunkHtml(html, 200);
+  assert.ok(chunks.length > 1);
+  assertValidChunks(html, chunks, 200);
+  for (const chunk of chunks) {
+    assert.ok(chunk.startsWith('<pre><code class="language-ts">'), chunk);
+    assert.ok(chunk.endsWith('</code></pre>'), chunk);
+  }
+});
+
+test('a long line is split between words, never inside an entity', () => {
+  const html = markdownToTelegram('*' + 'a < b && c > "d" '.repeat(40) + '*');
+  const chunks = chunkHtml(html, 80);
+  assert.ok(chunks.length > 1);
+  assertValidChunks(html, chunks, 80);
+});
+
+test('a word longer than a chunk is cut into slices', () => {
+  const html = markdownToTelegram('**' + 'x'.repeat(300) + '**');
+  const chunks = chunkHtml(html, 100);
+  assertValidChunks(html, chunks, 100);
+});
+
+test('a link tag is never cut, even with a long URL', () => {
+  const url = `https://example.com/${'path/'.repeat(12)}`;
+  // Wherever the link falls in the text
+  for (let words = 0; words < 30; words++) {
+    const html = markdownToTelegram(`${'word '.repeat(words)}see [the docs](${url}) for ${'more words here '.repeat(10)}`);
+    const chunks = chunkHtml(html, 120);
+    assertValidChunks(html, chunks, 120);
+    assert.ok(chunks.some((chunk) => chunk.includes(`<a href="${url}">`)));
+  }
+});
+
+test('chunks with nothing but tags and whitespace are dropped', () => {
+  const html = `<b>${'word '.repeat(30)}</b>\n\n\n\n<i>${'more '.repeat(30)}</i>`;
+  const chunks = chunkHtml(html, 100);
+  assertValidChunks(html, chunks, 100);
+  for (const chunk of chunks) assert.ok(htmlToText(chunk).trim());
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { commandTranscriber, parseTranscriber } from '../src/utils/transcription.js';
+
+test('parseTranscriber defaults to the whisper.cpp command', () => {
+  assert.equal(parseTranscriber('Test', undefined, undefined)?.name, 'command');
+  assert.equal(parseTranscriber('Test', ' Command ', undefined)?.name, 'command');
+});
+
+test('parseTranscriber turns voice messages off', () => {
+  assert.equal(parseTranscriber('Test', 'off', undefined), null);
+  assert.equal(parseTranscriber('Test', 'OFF', 'echo hi'), null);
+});
+
+test('parseTranscriber reports an invalid backend and uses the default', (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  assert.equal(parseTranscriber('Test', 'stub', undefined)?.name, 'command');
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /invalid transcriber "stub"/);
+});
+
+test('parseTranscriber runs the configured command', async () => {
+  const transcriber = parseTranscriber('Test', undefined, 'echo custom {file}');
+  assert.equal(await transcriber?.transcribe('/tmp/a.ogg'), 'custom /tmp/a.ogg');
+});
+
+test('the command backend joins output lines into one transcript', async () => {
+  const transcriber = commandTranscriber("printf '  first line\\n\\n second line \\n'");
+  assert.equal(await transcriber.transcribe('/tmp/a.ogg'), 'first line second line');
+});
+
+test('the command backend quotes the file path', async () => {
+  const transcriber = commandTranscriber('printf %s {file}');
+  assert.equal(await transcriber.transcribe("/tmp/it's $HOME; rm.ogg"), "/tmp/it's $HOME; rm.ogg");
+});
+
+test("the command backend reports the command's last error line", async () => {
+  const transcriber = commandTranscriber("echo 'loading model' >&2; echo 'model not found' >&2; exit 1");
+  await assert.rejects(transcriber.transcribe('/tmp/a.ogg'), { message: 'model not found' });
+});
+
+test('the command backend reports the exit code when the command says nothing', async () => {
+  const transcriber = commandTranscriber('exit 3');
+  await assert.rejects(transcriber.transcribe('/tmp/a.ogg'), { message: 'exited with code 3' });
+});
+
+test('the command backend reports a missing command', async () => {
+  const transcriber = commandTranscriber('no-such-transcriber-command {file}');
+  await assert.rejects(transcriber.transcribe('/tmp/a.ogg'), { message: /not found/ });
+});
+
+test('the command backend gives up on a command that hangs', async () => {
+  const transcriber = commandTranscriber('sleep 5', 100);
+  await assert.rejects(transcriber.transcribe('/tmp/a.ogg'), { message: 'timed out' });
+});
@@ -0,0 +1,116 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+// AFK Code's state directory is ~/.afk-code, read when json-store.ts loads
+const base = realpathSync(mkdtempSync(join(tmpdir(), 'afk-sandbox-')));
+const home = join(base, 'home');
+process.env.HOME = home;
+const { auditUpload, realPath, uploadRefusal } = await import('../src/utils/upload-sandbox.js');
+const { parseArtifactPolicy } = await import('../src/core/artifacts.js');
+
+after(() => rmSync(base, { recursive: true, force: true }));
+
+const OUTSIDE = 'outside the session directory and upload roots';
+const HIDDEN = 'hidden file or directory';
+const OWN_FILES = "AFK Code's own files";
+
+function file(path: string, content = 'x'): string {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+  return path;
+}
+
+function link(path: string, target: string): string {
+  mkdirSync(dirname(path), { recursive: true });
+  symlinkSync(target, path);
+  return path;
+}
+
+const project = join(base, 'x', 'proj');
+const refusal = (path: string, roots = [project]) => uploadRefusal(realPath(path), roots);
+
+test('files in the session directory may be uploaded', () => {
+  assert.equal(refusal(file(join(project, 'chart.png'))), null);
+  assert.equal(refusal(file(join(project, 'out', 'deep', 'report.pdf'))), null);
+  // Not written yet - placed in its directory
+  assert.equal(refusal(join(project, 'out', 'later.png')), null);
+});
+
+test('hidden files and anything in hidden directories are refused', () => {
+  assert.equal(refusal(file(join(project, '.env'))), HIDDEN);
+  assert.equal(refusal(file(join(project, '.git', 'config'))), HIDDEN);
+  assert.equal(refusal(file(join(project, 'sub', '.ssh', 'id_rsa.png'))), HIDDEN);
+  assert.equal(refusal(join(project, '.cache', 'missing.png')), HIDDEN);
+});
+
+test('a symlink is judged by where it leads', () => {
+  const secret = file(join(base, 'elsewhere', 'secret.png'));
+  assert.equal(refusal(link(join(project, 'innocent.png'), secret)), OUTSIDE);
+  assert.equal(refusal(link(join(project, 'env.txt'), join(project, '.env'))), HIDDEN);
+  assert.equal(refusal(link(join(project, 'alias.png'), file(join(project, 'chart.png')))), null);
+
+  // ...and so is a file in a symlinked directory, or one that doesn't exist yet
+  link(join(project, 'docs'), dirname(secret));
+  assert.equal(refusal(join(project, 'docs', 'secret.png')), OUTSIDE);
+  assert.equal(refusal(join(project, 'docs', 'new.png')), OUTSIDE);
+});
+
+test('.. does not lead out of the session directory', () => {
+  file(join(base, 'x', 'other', 'notes.txt'));
+  assert.equal(refusal(join(project, '..', 'other', 'notes.txt')), OUTSIDE);
+});
+
+test('a sibling directory whose name starts with the session directory is outside it', () => {
+  assert.equal(refusal(file(join(base, 'x', 'projx', 'chart.png'))), OUTSIDE);
+  assert.equal(refusal(file(join(base, 'x', 'proj-old', 'chart.png'))), OUTSIDE);
+});
+
+test('a session directory reached through a symlink still contains its files', () => {
+  const linked = link(join(base, 'linked-proj'), project);
+  assert.equal(refusal(join(linked, 'chart.png'), [linked]), null);
+});
+
+test('everything under ~/.afk-code is refused, even from a root that contains it', () => {
+  const sessions = file(join(home, '.afk-code', 'sessions.json'), '{}');
+  const uploads = file(join(home, '.afk-code', 'attachments', 'photo.jpg'));
+  assert.equal(refusal(sessions, [home]), OWN_FILES);
+  assert.equal(refusal(uploads, [join(home, '.afk-code')]), OWN_FILES);
+  assert.equal(refusal(uploads, []), OWN_FILES);
+  assert.equal(refusal(link(join(project, 'state.json'), sessions)), OWN_FILES);
+});
+
+test('extra upload roots are allowed, with the same rules inside them', () => {
+  const shared = join(home, 'shared');
+  const exports = join(base, 'exports');
+  const { roots } = parseArtifactPolicy('Test', undefined, undefined, ` ~/shared, ${exports} ,,`, 1024);
+  assert.deepEqual(roots, [shared, exports]);
+
+  const allRoots = [project, ...roots];
+  assert.equal(refusal(file(join(shared, 'plot.svg')), allRoots), null);
+  assert.equal(refusal(file(join(exports, 'table.csv')), allRoots), null);
+  assert.equal(refusal(file(join(exports, '.secret', 'table.csv')), allRoots), HIDDEN);
+  assert.equal(refusal(file(join(home, 'notes.txt')), allRoots), OUTSIDE);
+  assert.equal(refusal(join(exports, 'table.csv')), OUTSIDE, 'only with the roots configured');
+});
+
+test('~ alone as an upload root is the home directory', () => {
+  assert.deepEqual(parseArtifactPolicy('Test', undefined, undefined, '~', 1024).roots, [home]);
+});
+
+test('uploads and refusals are written to the audit log', async (t) => {
+  t.mock.method(console, 'log', () => {});
+  auditUpload('Test', 'session-1', '/tmp/a.png', null);
+  auditUpload('Test', 'session-1', '/tmp/.env', HIDDEN);
+
+  const log = join(home, '.afk-code', 'uploads.log');
+  const lines = () => (existsSync(log) ? readFileSync(log, 'utf-8').trim().split('\n') : []);
+  while (lines().length < 2) await new Promise((resolve) => setTimeout(resolve, 10));
+  // Appended independently, so in either order
+  assert.deepEqual(lines().map((line) => line.split('\t').slice(1)).sort(), [
+    ['Test', 'session-1', 'refused', '/tmp/.env', HIDDEN],
+    ['Test', 'session-1', 'uploaded', '/tmp/a.png', ''],
+  ]);
+});